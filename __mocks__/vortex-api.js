@@ -0,0 +1,41 @@
+// Only what the code under test needs from vortex-api, file system access goes to the real
+//  file system
+const Promise = require('bluebird');
+const fs = require('fs');
+const os = require('os');
+
+const action = (type) => (...args) => ({ type, payload: args });
+
+module.exports = {
+  actions: {
+    removeCategory: action('REMOVE_CATEGORY'),
+    removeDownload: action('REMOVE_DOWNLOAD'),
+    removeModRule: action('REMOVE_MOD_RULE'),
+    removeProfile: action('REMOVE_PROFILE'),
+    setDownloadModInfo: action('SET_DOWNLOAD_MODINFO'),
+    setModAttributes: action('SET_MOD_ATTRIBUTES'),
+  },
+  fs: {
+    readFileAsync: Promise.promisify(fs.readFile),
+    readdirAsync: Promise.promisify(fs.readdir),
+    statAsync: Promise.promisify(fs.stat),
+    writeFileAsync: Promise.promisify(fs.writeFile),
+    ensureDirAsync: (dirPath) => Promise.resolve(fs.promises.mkdir(dirPath, { recursive: true })),
+    createWriteStream: fs.createWriteStream,
+    removeAsync: (filePath) => Promise.resolve(fs.promises.unlink(filePath)),
+  },
+  log: () => undefined,
+  selectors: {
+    downloadPathForGame: (state, gameId) => state.downloadPath,
+  },
+  util: {
+    deriveInstallName: (name) => name,
+    getSafe: (state, statePath, fallback) => {
+      const res = statePath.reduce((prev, key) =>
+        ((prev !== undefined) && (prev !== null)) ? prev[key] : undefined, state);
+      return (res !== undefined) ? res : fallback;
+    },
+    getVortexPath: () => os.tmpdir(),
+    renderModName: (mod) => mod.attributes.name,
+  },
+};
@@ -0,0 +1,92 @@
+import ImportJournal from '../src/util/ImportJournal';
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+function line(entry: any): string {
+  return JSON.stringify(entry) + '\n';
+}
+
+describe('ImportJournal.parse', () => {
+  const plan = {
+    gameId: 'skyrimse',
+    source: ['C:\\NMM', 'C:\\NMM\\VirtualInstall', 'C:\\NMM\\Mods'],
+    strategy: 'copy',
+    mods: [],
+    loadOrder: [{ name: 'Skyrim.esm', enabled: true }],
+    unmanagedFiles: [{ relPath: 'textures\\sky.dds', size: 42, group: 1 }],
+  };
+
+  it('keeps the load order and unmanaged files of the plan', () => {
+    const state = ImportJournal.parse('session', line({ event: 'plan', time: 1, plan }));
+    expect(state.plan.loadOrder).toEqual(plan.loadOrder);
+    expect(state.plan.unmanagedFiles).toEqual(plan.unmanagedFiles);
+    expect(state.startTime).toBe(1);
+    expect(state.finished).toBe(false);
+  });
+
+  it('tracks the progress of the import', () => {
+    const state = ImportJournal.parse('session',
+      line({ event: 'plan', time: 1, plan })
+      + line({ event: 'transferred', time: 2, modFilename: 'a.7z' })
+      + line({ event: 'registered', time: 3, modFilename: 'a.7z', archiveId: 'id1' })
+      + line({ event: 'category', time: 4, categoryId: 'nmm_0' })
+      + line({ event: 'unmanaged', time: 5, group: 1, modId: 'nmm-unmanaged-1' })
+      + line({ event: 'finished', time: 6 }));
+    expect(state.transferred).toEqual(['a.7z']);
+    expect(state.archiveIds).toEqual({ 'a.7z': 'id1' });
+    expect(state.categories).toEqual(['nmm_0']);
+    expect(state.unmanagedMods).toEqual({ 1: 'nmm-unmanaged-1' });
+    expect(state.finished).toBe(true);
+  });
+
+  it('ignores a truncated last line', () => {
+    const state = ImportJournal.parse('session',
+      line({ event: 'plan', time: 1, plan }) + '{"event":"transf');
+    expect(state.transferred).toEqual([]);
+  });
+});
+
+describe('ImportJournal', () => {
+  let sessionPath: string;
+
+  beforeEach(() => {
+    sessionPath = fs.mkdtempSync(path.join(os.tmpdir(), 'nmm-journal-'));
+  });
+
+  afterEach(() => {
+    fs.readdirSync(sessionPath).forEach(name => fs.unlinkSync(path.join(sessionPath, name)));
+    fs.rmdirSync(sessionPath);
+  });
+
+  // the journal is closed asynchronously
+  const closed = () => new Promise(resolve => setTimeout(resolve, 100));
+
+  it('finishes a session only once when it is continued', () => {
+    const journal = new ImportJournal(sessionPath);
+    return journal.open()
+      .then(() => {
+        journal.plan({ gameId: 'skyrimse', source: [], strategy: 'copy', mods: [] });
+        journal.finish();
+      })
+      .then(() => closed())
+      .then(() => ImportJournal.read(sessionPath))
+      .then(state => {
+        const continued = new ImportJournal(sessionPath, state);
+        return continued.open()
+          .then(() => {
+            continued.transferred('a.7z');
+            continued.close();
+          });
+      })
+      .then(() => closed())
+      .then(() => {
+        const lines = fs.readFileSync(path.join(sessionPath, 'journal.jsonl'), 'utf-8')
+          .split(/\r?\n/)
+          .filter(line => line.length > 0)
+          .map(line => JSON.parse(line).event);
+        expect(lines).toEqual(['plan', 'finished', 'transferred']);
+      });
+  });
+});
@@ -0,0 +1,82 @@
+import TraceImport from '../src/util/TraceImport';
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// the log files are closed asynchronously
+function closed(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 100));
+}
+
+describe('TraceImport', () => {
+  let sessionPath: string;
+
+  beforeEach(() => {
+    sessionPath = fs.mkdtempSync(path.join(os.tmpdir(), 'nmm-trace-'));
+  });
+
+  afterEach(() => {
+    fs.readdirSync(sessionPath).forEach(name => fs.unlinkSync(path.join(sessionPath, name)));
+    fs.rmdirSync(sessionPath);
+  });
+
+  describe('readTrace', () => {
+    it('reads one entry per line', () => {
+      fs.writeFileSync(path.join(sessionPath, 'trace.jsonl'),
+        '{"time":"t1","level":"info","phase":"setup","message":"one"}\r\n'
+        + '{"time":"t2","level":"warn","phase":"transfer","message":"two","mod":"a.7z"}\n');
+      return TraceImport.readTrace(sessionPath)
+        .then(entries => {
+          expect(entries.map(entry => entry.message)).toEqual(['one', 'two']);
+          expect(entries[1].mod).toBe('a.7z');
+        });
+    });
+
+    it('skips lines that are incomplete', () => {
+      fs.writeFileSync(path.join(sessionPath, 'trace.jsonl'),
+        '{"time":"t1","level":"info","phase":"setup","message":"one"}\n{"time":"t2","lev');
+      return TraceImport.readTrace(sessionPath)
+        .then(entries => {
+          expect(entries.length).toBe(1);
+        });
+    });
+
+    it('is empty if there is no trace', () => TraceImport.readTrace(sessionPath)
+      .then(entries => {
+        expect(entries).toEqual([]);
+      }));
+  });
+
+  it('writes entries tagged with the current phase', () => {
+    const trace = new TraceImport(sessionPath);
+    return trace.open()
+      .then(() => {
+        trace.log('info', 'Started');
+        trace.setPhase('finish');
+        trace.log('error', 'Failed', { code: 'ENOSPC' }, { mod: 'a.7z' });
+        trace.finish();
+        return closed();
+      })
+      .then(() => TraceImport.readTrace(sessionPath))
+      .then(entries => {
+        expect(entries.map(entry => [entry.phase, entry.level, entry.message, entry.mod]))
+          .toEqual([
+            ['setup', 'info', 'Started', undefined],
+            ['finish', 'error', 'Failed', 'a.7z'],
+          ]);
+        expect(entries[1].code).toBe('ENOSPC');
+        expect(fs.readFileSync(trace.logFilePath, 'utf-8')).toContain('[error] a.7z: Failed');
+      });
+  });
+
+  it('can be finished more than once', () => {
+    const trace = new TraceImport(sessionPath);
+    return trace.open()
+      .then(() => {
+        trace.finish();
+        expect(() => trace.finish()).not.toThrow();
+        return closed();
+      });
+  });
+});
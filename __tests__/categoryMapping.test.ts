@@ -0,0 +1,146 @@
+import { buildCategoryRows, findVortexCategory, isStockCategory, resolveMapping, similarity,
+         suggestCategory } from '../src/util/categoryMapping';
+
+function category(name: string) {
+  return { name, order: 0, parentCategory: undefined };
+}
+
+const VORTEX_CATEGORIES = {
+  2: category('Miscellaneous'),
+  29: category('Armour'),
+  42: category('User Interface'),
+};
+
+describe('similarity', () => {
+  it('ignores case and punctuation', () => {
+    expect(similarity('User-Interface', 'user interface')).toBe(1);
+  });
+  it('is 0 for empty names', () => {
+    expect(similarity('', '')).toBe(0);
+  });
+  it('scales with the edit distance', () => {
+    expect(similarity('Armor', 'Armour')).toBeCloseTo(5 / 6);
+    expect(similarity('abc', 'xyz')).toBe(0);
+  });
+});
+
+describe('isStockCategory', () => {
+  it('matches by id and name', () => {
+    expect(isStockCategory('29', 'Armour', VORTEX_CATEGORIES)).toBe(true);
+    expect(isStockCategory('42', 'user interface', VORTEX_CATEGORIES)).toBe(true);
+  });
+  it('treats custom categories reusing a Nexus id as custom', () => {
+    expect(isStockCategory('2', 'My Favourites', VORTEX_CATEGORIES)).toBe(false);
+  });
+  it('treats unknown ids as custom', () => {
+    expect(isStockCategory('1001', 'Armour', VORTEX_CATEGORIES)).toBe(false);
+  });
+});
+
+describe('suggestCategory', () => {
+  it('suggests the closest Vortex category', () => {
+    expect(suggestCategory('Armor', VORTEX_CATEGORIES)).toBe('29');
+  });
+  it('suggests nothing if no category is close enough', () => {
+    expect(suggestCategory('Weather', VORTEX_CATEGORIES)).toBeUndefined();
+  });
+});
+
+describe('buildCategoryRows', () => {
+  const nmmCategories = { 29: 'Armour', 1001: 'Armor', 1002: 'My Favourites' };
+
+  it('leaves out stock categories', () => {
+    const rows = buildCategoryRows(nmmCategories, {}, VORTEX_CATEGORIES, {});
+    expect(rows.map(row => row.name)).toEqual(['Armor', 'My Favourites']);
+  });
+  it('keeps custom categories whose id collides with a Nexus category', () => {
+    const rows = buildCategoryRows({ 2: 'Weather' }, {}, VORTEX_CATEGORIES, {});
+    expect(rows.map(row => row.name)).toEqual(['Weather']);
+  });
+  it('maps to the suggestion or creates the category by default', () => {
+    const rows = buildCategoryRows(nmmCategories, { Armor: 3 }, VORTEX_CATEGORIES, {});
+    expect(rows[0]).toEqual({
+      name: 'Armor', modCount: 3, suggestion: '29', mapping: { action: 'map', target: '29' },
+    });
+    expect(rows[1].mapping).toEqual({ action: 'create' });
+    expect(rows[1].modCount).toBe(0);
+  });
+  it('keeps valid saved mappings', () => {
+    const rows = buildCategoryRows(nmmCategories, {}, VORTEX_CATEGORIES, {
+      'Armor': { action: 'create' },
+      'My Favourites': { action: 'merge', target: 'Armor' },
+    });
+    expect(rows.map(row => row.mapping)).toEqual([
+      { action: 'create' },
+      { action: 'merge', target: 'Armor' },
+    ]);
+  });
+  it('drops saved mappings to categories that no longer exist', () => {
+    const rows = buildCategoryRows(nmmCategories, {}, VORTEX_CATEGORIES, {
+      'Armor': { action: 'map', target: '1234' },
+      'My Favourites': { action: 'merge', target: 'Weather' },
+    });
+    expect(rows.map(row => row.mapping)).toEqual([
+      { action: 'map', target: '29' },
+      { action: 'create' },
+    ]);
+  });
+});
+
+describe('resolveMapping', () => {
+  it('returns the mapping of the category itself', () => {
+    expect(resolveMapping('Armor', { Armor: { action: 'map', target: '29' } }))
+      .toEqual({ name: 'Armor', mapping: { action: 'map', target: '29' } });
+  });
+  it('follows merges', () => {
+    expect(resolveMapping('A', {
+      A: { action: 'merge', target: 'B' },
+      B: { action: 'merge', target: 'C' },
+      C: { action: 'create' },
+    })).toEqual({ name: 'C', mapping: { action: 'create' } });
+  });
+  it('is undefined for unmapped categories', () => {
+    expect(resolveMapping('A', { A: { action: 'merge', target: 'B' } }))
+      .toEqual({ name: 'B', mapping: undefined });
+  });
+  it('stops at merge cycles', () => {
+    expect(resolveMapping('A', {
+      A: { action: 'merge', target: 'B' },
+      B: { action: 'merge', target: 'A' },
+    }).mapping).toBeUndefined();
+  });
+});
+
+describe('findVortexCategory', () => {
+  const vortexCategories = {
+    ...VORTEX_CATEGORIES,
+    nmm_0: category('Imported from NMM'),
+    nmm_1: { name: 'Weapons', order: 0, parentCategory: 'nmm_0' },
+  };
+
+  it('uses stock categories as they are', () => {
+    expect(findVortexCategory({ nmmId: '29', name: 'Armour', vortexId: '29' }, {},
+                              vortexCategories))
+      .toEqual({ id: '29', name: 'Armour' });
+  });
+
+  it('follows the mapping to an existing category', () => {
+    expect(findVortexCategory({ nmmId: '101', name: 'Armor', vortexId: undefined },
+                              { Armor: { action: 'map', target: '29' } }, vortexCategories))
+      .toEqual({ id: '29', name: 'Armour' });
+  });
+
+  it('follows merges before looking the category up by name', () => {
+    expect(findVortexCategory({ nmmId: '101', name: 'Swords', vortexId: undefined },
+                              { Swords: { action: 'merge', target: 'Weapons' },
+                                Weapons: { action: 'create' } },
+                              vortexCategories))
+      .toEqual({ id: 'nmm_1', name: 'Weapons' });
+  });
+
+  it('has no id for categories that still need to be created', () => {
+    expect(findVortexCategory({ nmmId: '102', name: 'Houses', vortexId: undefined },
+                              { Houses: { action: 'create' } }, vortexCategories))
+      .toEqual({ id: undefined, name: 'Houses' });
+  });
+});
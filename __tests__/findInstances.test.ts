@@ -0,0 +1,103 @@
+import findInstances from '../src/util/findInstances';
+import { fakeServices, getPlatformServices, setPlatformServices } from '../src/util/platform';
+import { isNMMRunning } from '../src/util/util';
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+function userConfig(modeId: string, settings: { [name: string]: string }): string {
+  const items = Object.keys(settings).map(name =>
+    `<setting name="${name}" serializeAs="Xml"><value><KeyedSettingsOfString>`
+    + `<item modeId="${modeId}"><string>${settings[name]}</string></item>`
+    + `</KeyedSettingsOfString></value></setting>`);
+  return '<?xml version="1.0" encoding="utf-8"?><configuration><userSettings>'
+    + `<Nexus.Client.Properties.Settings>${items.join('')}</Nexus.Client.Properties.Settings>`
+    + '</userSettings></configuration>';
+}
+
+function removeAll(dirPath: string) {
+  fs.readdirSync(dirPath).forEach(name => {
+    const filePath = path.join(dirPath, name);
+    if (fs.statSync(filePath).isDirectory()) {
+      removeAll(filePath);
+    } else {
+      fs.unlinkSync(filePath);
+    }
+  });
+  fs.rmdirSync(dirPath);
+}
+
+describe('platform services', () => {
+  const original = getPlatformServices();
+  let localAppData: string;
+
+  beforeEach(() => {
+    localAppData = fs.mkdtempSync(path.join(os.tmpdir(), 'nmm-appdata-'));
+  });
+
+  afterEach(() => {
+    removeAll(localAppData);
+    setPlatformServices(original);
+  });
+
+  describe('findInstances', () => {
+    function addInstance(instance: string, version: string, config: string) {
+      const configPath = path.join(localAppData, 'Black_Tree_Gaming', instance, version);
+      fs.mkdirSync(configPath, { recursive: true });
+      fs.writeFileSync(path.join(configPath, 'user.config'), config);
+    }
+
+    it('finds NMM instances in the local application data', () => {
+      const modsPath = path.join(localAppData, 'Mods');
+      fs.mkdirSync(modsPath);
+      addInstance('NexusClient.exe_Url_abc', '0.65.0', userConfig('SkyrimSE', {
+        ModFolder: modsPath,
+        VirtualFolder: 'C:\\NMM\\VirtualInstall',
+        HDLinkFolder: 'C:\\NMM\\Links',
+      }));
+      // instance for a different game
+      addInstance('NexusClient.exe_Url_def', '0.65.0', userConfig('Fallout4', {
+        ModFolder: 'C:\\NMM\\Fallout4\\Mods',
+      }));
+      setPlatformServices(fakeServices({ localAppData }));
+
+      return findInstances('skyrimse')
+        .then(instances => {
+          expect(instances).toHaveLength(1);
+          expect(instances[0].slice(0, 3))
+            .toEqual(['C:\\NMM\\VirtualInstall', 'C:\\NMM\\Links', modsPath]);
+        });
+    });
+
+    it('falls back to the mods folder without a virtual folder', () => {
+      addInstance('NexusClient.exe_Url_abc', '0.52.0', userConfig('SkyrimSE', {
+        ModFolder: 'C:\\NMM\\Mods',
+      }));
+      setPlatformServices(fakeServices({ localAppData }));
+
+      return findInstances('skyrimse')
+        .then(instances => {
+          expect(instances).toEqual([['C:\\NMM\\Mods', '', 'C:\\NMM\\Mods', '0']]);
+        });
+    });
+
+    it('finds nothing if NMM was never run', () => {
+      setPlatformServices(fakeServices({ localAppData }));
+      return findInstances('skyrimse')
+        .then(instances => expect(instances).toEqual([]));
+    });
+  });
+
+  describe('isNMMRunning', () => {
+    it('detects the NMM process', () => {
+      setPlatformServices(fakeServices({ processes: ['explorer.exe', 'NexusClient.exe'] }));
+      expect(isNMMRunning()).toBe(true);
+    });
+
+    it('ignores other processes', () => {
+      setPlatformServices(fakeServices({ processes: ['explorer.exe', 'Vortex.exe'] }));
+      expect(isNMMRunning()).toBe(false);
+    });
+  });
+});
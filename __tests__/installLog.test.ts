@@ -0,0 +1,111 @@
+import { normalizeDataPath, parseInstallDate, parseInstallLog } from '../src/util/installLog';
+
+const INSTALL_LOG = `<?xml version="1.0" encoding="utf-8"?>
+<installLog fileVersion="0.5.0.0">
+  <modList>
+    <mod path="Dummy Mod: ORIGINAL_VALUES" key="a1b2c3d4">
+      <version machineVersion="">1.0</version>
+      <name>ORIGINAL_VALUES</name>
+    </mod>
+    <mod path="C:\\Games\\NMM\\Skyrim\\Mods\\SkyUI_5_1-3863-5-1.7z" key="bnd3gfsr">
+      <version machineVersion="5.1">5.1</version>
+      <name>SkyUI</name>
+      <installDate>19.10.2018 14:00:00</installDate>
+    </mod>
+    <mod path="C:\\Games\\NMM\\Skyrim\\Mods\\Better Textures.zip" key="q3ej6vt2">
+      <version machineVersion="">2.0</version>
+      <name>Better Textures</name>
+    </mod>
+  </modList>
+  <dataFiles>
+    <file path="Interface\\skyui\\config.txt">
+      <installingMods>
+        <mod key="bnd3gfsr" />
+      </installingMods>
+    </file>
+    <file path="textures\\sky.dds">
+      <installingMods>
+        <mod key="bnd3gfsr" />
+        <mod key="q3ej6vt2" />
+      </installingMods>
+    </file>
+  </dataFiles>
+</installLog>`;
+
+describe('normalizeDataPath', () => {
+  it('uses forward slashes and lower case', () => {
+    expect(normalizeDataPath('\\Textures\\\\Sky.dds')).toBe('textures/sky.dds');
+  });
+  it('removes leading and trailing separators', () => {
+    expect(normalizeDataPath('/meshes/')).toBe('meshes');
+  });
+});
+
+describe('parseInstallLog', () => {
+  const log = parseInstallLog(INSTALL_LOG);
+
+  it('lists the mods by lower cased archive name', () => {
+    expect(Object.keys(log.mods).sort())
+      .toEqual(['better textures.zip', 'skyui_5_1-3863-5-1.7z']);
+    expect(log.mods['skyui_5_1-3863-5-1.7z']).toEqual({
+      key: 'bnd3gfsr',
+      archiveName: 'SkyUI_5_1-3863-5-1.7z',
+      name: 'SkyUI',
+      version: '5.1',
+      installDate: '19.10.2018 14:00:00',
+    });
+  });
+  it('skips the original values placeholder', () => {
+    expect(Object.keys(log.files)).not.toContain('a1b2c3d4');
+    expect(Object.values(log.mods).find(mod => mod.name === 'ORIGINAL_VALUES')).toBeUndefined();
+  });
+  it('leaves out missing install dates', () => {
+    expect(log.mods['better textures.zip'].installDate).toBeUndefined();
+  });
+  it('lists the files each mod installed', () => {
+    expect(log.files['bnd3gfsr']).toEqual(['interface/skyui/config.txt', 'textures/sky.dds']);
+    expect(log.files['q3ej6vt2']).toEqual(['textures/sky.dds']);
+  });
+  it('assigns files to the mod installed last', () => {
+    expect(log.owners['textures/sky.dds']).toBe('q3ej6vt2');
+    expect(log.owners['interface/skyui/config.txt']).toBe('bnd3gfsr');
+  });
+  it('accepts a log without mods', () => {
+    expect(parseInstallLog('<installLog><modList /><dataFiles /></installLog>'))
+      .toEqual({ mods: {}, files: {}, owners: {} });
+  });
+});
+
+describe('parseInstallDate', () => {
+  const expected = new Date(2018, 9, 19, 14, 0, 0);
+
+  it('reads dates with dots as day first', () => {
+    expect(parseInstallDate('19.10.2018 14:00:00')).toEqual(expected);
+    expect(parseInstallDate('05.10.2018 14:00:00')).toEqual(new Date(2018, 9, 5, 14, 0, 0));
+  });
+  it('reads US dates as month first', () => {
+    expect(parseInstallDate('10/19/2018 2:00:00 PM')).toEqual(expected);
+    expect(parseInstallDate('10/05/2018 2:00:00 PM')).toEqual(new Date(2018, 9, 5, 14, 0, 0));
+    expect(parseInstallDate('10/19/2018 12:30:00 AM')).toEqual(new Date(2018, 9, 19, 0, 30, 0));
+  });
+  it('reads slashes with a 24 hour clock as day first', () => {
+    expect(parseInstallDate('19/10/2018 14:00:00')).toEqual(expected);
+    expect(parseInstallDate('05/10/2018 14:00:00')).toEqual(new Date(2018, 9, 5, 14, 0, 0));
+  });
+  it('reads dates with the year first', () => {
+    expect(parseInstallDate('2018-10-19 14:00:00')).toEqual(expected);
+    expect(parseInstallDate('2018/10/19 14:00')).toEqual(expected);
+  });
+  it('rejects impossible dates', () => {
+    expect(parseInstallDate('31.02.2018 14:00:00')).toBeUndefined();
+    expect(parseInstallDate('10.19.2018 14:00:00')).toBeUndefined();
+    expect(parseInstallDate('19.10.2018 25:00:00')).toBeUndefined();
+    expect(parseInstallDate('10/19/2018 14:00:00 PM')).toBeUndefined();
+  });
+  it('rejects anything else', () => {
+    expect(parseInstallDate(undefined)).toBeUndefined();
+    expect(parseInstallDate('')).toBeUndefined();
+    expect(parseInstallDate('yesterday')).toBeUndefined();
+    expect(parseInstallDate('19.10.18 14:00:00')).toBeUndefined();
+  });
+});
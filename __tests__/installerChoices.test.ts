@@ -0,0 +1,137 @@
+import { mapInstallerChoices, restoreInstallerChoices } from '../src/util/installerChoices';
+import TraceImport from '../src/util/TraceImport';
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const MODULE_CONFIG = `<?xml version="1.0" encoding="utf-8"?>
+<config>
+  <moduleName>Test Mod</moduleName>
+  <installSteps order="Explicit">
+    <installStep name="Main">
+      <optionalFileGroups order="Explicit">
+        <group name="Textures" type="SelectExactlyOne">
+          <plugins order="Explicit">
+            <plugin name="2K">
+              <files><file source="2k\\sky.dds" destination="textures\\sky.dds" /></files>
+            </plugin>
+            <plugin name="4K">
+              <files><file source="4k\\sky.dds" destination="textures\\sky4k.dds" /></files>
+            </plugin>
+          </plugins>
+        </group>
+        <group name="Extras" type="SelectAny">
+          <plugins>
+            <plugin name="Sounds">
+              <files><folder source="sound" destination="sound\\fx" /></files>
+            </plugin>
+            <plugin name="Meshes">
+              <files><file source="mesh.nif" destination="meshes\\mesh.nif" /></files>
+            </plugin>
+          </plugins>
+        </group>
+      </optionalFileGroups>
+    </installStep>
+  </installSteps>
+</config>`;
+
+describe('mapInstallerChoices', () => {
+  it('picks the options whose files got installed', () => {
+    expect(mapInstallerChoices(MODULE_CONFIG, ['textures/sky4k.dds', 'sound/fx/wind.wav']))
+      .toEqual({
+        type: 'fomod',
+        options: [{
+          name: 'Main',
+          groups: [
+            { name: 'Textures', choices: [{ name: '4K', idx: 1 }] },
+            // sorted alphabetically, Meshes comes first
+            { name: 'Extras', choices: [{ name: 'Sounds', idx: 1 }] },
+          ],
+        }],
+      });
+  });
+
+  it('selects nothing in optional groups if none of their files got installed', () => {
+    const result = mapInstallerChoices(MODULE_CONFIG, ['textures/sky.dds']);
+    expect(result.options[0].groups[1].choices).toEqual([]);
+  });
+
+  it('fails if a required option can\'t be determined', () => {
+    expect(() => mapInstallerChoices(MODULE_CONFIG, ['meshes/mesh.nif'])).toThrow();
+  });
+
+  it('fails if two options of a single choice group got installed equally', () => {
+    expect(() => mapInstallerChoices(MODULE_CONFIG, ['textures/sky.dds', 'textures/sky4k.dds']))
+      .toThrow('ambiguous selection');
+  });
+
+  it('fails on an invalid module config', () => {
+    expect(() => mapInstallerChoices('<notafomod />', [])).toThrow('invalid ModuleConfig.xml');
+  });
+});
+
+describe('restoreInstallerChoices', () => {
+  let modsPath: string;
+
+  function writeFile(relPath: string, content: string) {
+    fs.mkdirSync(path.dirname(path.join(modsPath, relPath)), { recursive: true });
+    fs.writeFileSync(path.join(modsPath, relPath), content);
+  }
+
+  function removeAll(dirPath: string) {
+    fs.readdirSync(dirPath).forEach(name => {
+      const entryPath = path.join(dirPath, name);
+      if (fs.statSync(entryPath).isDirectory()) {
+        removeAll(entryPath);
+      } else {
+        fs.unlinkSync(entryPath);
+      }
+    });
+    fs.rmdirSync(dirPath);
+  }
+
+  beforeEach(() => {
+    modsPath = fs.mkdtempSync(path.join(os.tmpdir(), 'nmm-mods-'));
+    writeFile('Install Info/InstallLog.xml', `<installLog><modList>
+      <mod path="Mapped.7z" key="k1"><name>Mapped</name><version>1</version></mod>
+      <mod path="Unmapped.7z" key="k2"><name>Unmapped</name><version>1</version></mod>
+    </modList><dataFiles>
+      <file path="textures\\sky.dds"><installingMods><mod key="k1" /></installingMods></file>
+      <file path="meshes\\mesh.nif"><installingMods><mod key="k2" /></installingMods></file>
+    </dataFiles></installLog>`);
+    ['Mapped', 'Unmapped', 'Malformed'].forEach(name => {
+      writeFile(`cache/${name}/cacheInfo.txt`, (name === 'Malformed') ? name : `${name}@@-`);
+      writeFile(`cache/${name}/fomod/ModuleConfig.xml`, MODULE_CONFIG);
+    });
+  });
+
+  afterEach(() => {
+    removeAll(modsPath);
+  });
+
+  it('maps the choices of every mod and lists the ones that failed', () => {
+    const trace = new TraceImport(path.join(modsPath, 'session'));
+    const mods: any[] = [
+      { modFilename: 'Mapped.7z' },
+      { modFilename: 'Unmapped.7z' },
+      { modFilename: 'NoInstaller.7z' },
+      { modFilename: 'Malformed.7z' },
+    ];
+    return trace.open()
+      .then(() => restoreInstallerChoices(modsPath, mods, trace))
+      .then(result => {
+        expect(Object.keys(result.choices)).toEqual(['Mapped.7z']);
+        expect(result.choices['Mapped.7z'].options[0].groups[0].choices)
+          .toEqual([{ name: '2K', idx: 0 }]);
+        expect(result.unmapped).toEqual(['Unmapped.7z', 'Malformed.7z']);
+      })
+      .finally(() => trace.finish())
+      .then(() => new Promise(resolve => setTimeout(resolve, 100)))
+      .then(() => TraceImport.readTrace(trace.sessionPath))
+      .then(entries => {
+        expect(entries.find(entry => entry.message === 'Malformed cacheInfo.txt in the NMM cache'))
+          .toMatchObject({ level: 'warn', mod: 'Malformed.7z' });
+      });
+  });
+});
@@ -0,0 +1,38 @@
+import { parseNexusFileName } from '../src/util/nexusFileName';
+
+describe('parseNexusFileName', () => {
+  it('reads mod id, version and upload time', () => {
+    expect(parseNexusFileName('SkyUI_5_1_SE-12604-5-1-1554233744.7z')).toEqual({
+      modName: 'SkyUI_5_1_SE',
+      modId: '12604',
+      version: '5.1',
+      uploadTime: 1554233744,
+    });
+  });
+  it('keeps dashes inside the mod name', () => {
+    expect(parseNexusFileName('Unofficial Skyrim - Patch-266-4-2-1-1571425712.zip')).toEqual({
+      modName: 'Unofficial Skyrim - Patch',
+      modId: '266',
+      version: '4.2.1',
+      uploadTime: 1571425712,
+    });
+  });
+  it('takes the id right before the version', () => {
+    expect(parseNexusFileName('Mod-2-Name-1234-1-0-1600000000.7z')).toEqual({
+      modName: 'Mod-2-Name',
+      modId: '1234',
+      version: '1.0',
+      uploadTime: 1600000000,
+    });
+  });
+  it('accepts versions with letters', () => {
+    expect(parseNexusFileName('Some Mod-1234-1-0a-1500000000.rar').version).toBe('1.0a');
+  });
+  it('ignores the folder', () => {
+    expect(parseNexusFileName('C:\\Mods/Some Mod-1234-1-0-1500000000.rar').modId).toBe('1234');
+  });
+  it('is undefined for other file names', () => {
+    expect(parseNexusFileName('Better Textures.zip')).toBeUndefined();
+    expect(parseNexusFileName('Some Mod-1234-1-0.zip')).toBeUndefined();
+  });
+});
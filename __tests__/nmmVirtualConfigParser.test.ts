@@ -0,0 +1,123 @@
+import { IDuplicateIndex } from '../src/util/duplicates';
+import HashCache from '../src/util/HashCache';
+import { parseModEntries } from '../src/util/nmmVirtualConfigParser';
+import { ParseError, UnsupportedVersionError } from '../src/types/nmmEntries';
+
+import Promise from 'bluebird';
+
+const MODS_PATH = 'C:\\Games\\NMM\\Skyrim\\Mods';
+
+// no fileVersion, archives stored with their full path and link properties as attributes
+const CONFIG_UNVERSIONED = `<?xml version="1.0" encoding="utf-8"?>
+<virtualModActivator>
+  <modList>
+    <modInfo modId="3863" modName="SkyUI" modFileName="D:\\Archives\\SkyUI_5_1-3863-5-1.7z">
+      <fileLink realPath="SkyUI_5_1-3863-5-1\\interface\\skyui\\config.txt"
+                virtualPath="interface\\skyui\\config.txt" linkPriority="1" isActive="True" />
+    </modInfo>
+  </modList>
+</virtualModActivator>`;
+
+const CONFIG_0_1 = `<?xml version="1.0" encoding="utf-8"?>
+<virtualModActivator fileVersion="0.1.0.0">
+  <modList>
+    <modInfo modId="" modName="Better Textures" modFileName="Better Textures.zip">
+      <fileLink realPath="Better Textures\\textures\\sky.dds" virtualPath="textures\\sky.dds"
+                linkPriority="0" isActive="False" />
+    </modInfo>
+  </modList>
+</virtualModActivator>`;
+
+// the folder is stored on its own, link properties are child elements
+const CONFIG_0_2 = `<?xml version="1.0" encoding="utf-8"?>
+<virtualModActivator fileVersion="0.2.0.0">
+  <modList>
+    <modInfo modId="3863" downloadId="1000" modName="SkyUI" modFileName="SkyUI_5_1-3863-5-1.7z"
+             modFilePath="" FileVersion="5.1">
+      <fileLink realPath="SkyUI_5_1-3863-5-1\\interface\\skyui\\config.txt"
+                virtualPath="interface\\skyui\\config.txt">
+        <linkPriority>2</linkPriority>
+        <isActive>true</isActive>
+      </fileLink>
+    </modInfo>
+  </modList>
+</virtualModActivator>`;
+
+const CONFIG_0_3 = `<?xml version="1.0" encoding="utf-8"?>
+<virtualModActivator fileVersion="0.3.0.0">
+  <modList>
+    <modInfo modId="3863" downloadId="1000" modName="SkyUI" modFileName="SkyUI_5_1-3863-5-1.7z"
+             modFilePath="D:\\Archives" FileVersion="5.1">
+      <fileLink realPath="SkyUI_5_1-3863-5-1\\interface\\skyui\\config.txt"
+                virtualPath="interface\\skyui\\config.txt">
+        <linkPriority>2</linkPriority>
+        <isActive>true</isActive>
+      </fileLink>
+    </modInfo>
+  </modList>
+</virtualModActivator>`;
+
+const CONFIG_NEWER = `<?xml version="1.0" encoding="utf-8"?>
+<virtualModActivator fileVersion="0.4.0.0">
+  <modList />
+</virtualModActivator>`;
+
+function parse(xmlData: string) {
+  const duplicates: IDuplicateIndex = {
+    md5s: new Set<string>(),
+    fileNames: new Set<string>(),
+    fileIds: new Set<string>(),
+  };
+  const hashes = { hash: () => Promise.resolve({ md5: 'abcdef', size: 42 }) };
+  return parseModEntries(xmlData, duplicates, hashes as any as HashCache, MODS_PATH);
+}
+
+describe('parseModEntries', () => {
+  it('reads configurations without a version', () => parse(CONFIG_UNVERSIONED)
+    .then(([mod]) => {
+      expect(mod.modFilename).toBe('SkyUI_5_1-3863-5-1.7z');
+      expect(mod.archivePath).toBe('D:\\Archives');
+      expect(mod.nexusId).toBe('3863');
+      expect(mod.archiveMD5).toBe('abcdef');
+      expect(mod.fileEntries).toEqual([{
+        fileSource: 'SkyUI_5_1-3863-5-1\\interface\\skyui\\config.txt',
+        fileDestination: 'interface\\skyui\\config.txt',
+        isActive: true,
+        filePriority: 1,
+      }]);
+    }));
+
+  it('finds 0.1.0.0 archives without a path in the mods folder', () => parse(CONFIG_0_1)
+    .then(([mod]) => {
+      expect(mod.modFilename).toBe('Better Textures.zip');
+      expect(mod.archivePath).toBe(MODS_PATH);
+      expect(mod.fileEntries[0].isActive).toBe(false);
+    }));
+
+  it('ignores the file info 0.2.0.0 did not store', () => parse(CONFIG_0_2)
+    .then(([mod]) => {
+      expect(mod.modFilename).toBe('SkyUI_5_1-3863-5-1.7z');
+      expect(mod.archivePath).toBe(MODS_PATH);
+      expect(mod.downloadId).toBeUndefined();
+      expect(mod.modVersion).toBe('');
+      expect(mod.fileEntries[0]).toEqual(expect.objectContaining({
+        isActive: true,
+        filePriority: 2,
+      }));
+    }));
+
+  it('reads 0.3.0.0 configurations', () => parse(CONFIG_0_3)
+    .then(([mod]) => {
+      expect(mod.archivePath).toBe('D:\\Archives');
+      expect(mod.downloadId).toBe(1000);
+      expect(mod.modVersion).toBe('5.1');
+      expect(mod.fileEntries[0].filePriority).toBe(2);
+    }));
+
+  it('rejects newer versions', () => parse(CONFIG_NEWER)
+    .then(() => Promise.reject(new Error('should have failed')))
+    .catch(err => {
+      expect(err).toBeInstanceOf(UnsupportedVersionError);
+      expect(err).toBeInstanceOf(ParseError);
+    }));
+});
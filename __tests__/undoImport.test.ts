@@ -0,0 +1,142 @@
+import { IJournalState } from '../src/types/journal';
+import ImportJournal from '../src/util/ImportJournal';
+import { undoImport } from '../src/util/undoImport';
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// the journal is closed asynchronously
+function closed(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 100));
+}
+
+function makeApi(state: any) {
+  const dispatched: any[] = [];
+  const removedMods: string[] = [];
+  const api: any = {
+    getState: () => state,
+    store: {
+      getState: () => state,
+      dispatch: (action: any) => dispatched.push(action),
+    },
+    events: {
+      emit: (event: string, gameId: string, modId: string, cb: (err: Error) => void) => {
+        removedMods.push(modId);
+        cb(null);
+      },
+    },
+  };
+  return { api, dispatched, removedMods };
+}
+
+describe('undoImport', () => {
+  let basePath: string;
+
+  beforeEach(() => {
+    basePath = fs.mkdtempSync(path.join(os.tmpdir(), 'nmm-undo-'));
+  });
+
+  afterEach(() => {
+    const remove = (dirPath: string) => {
+      fs.readdirSync(dirPath).forEach(name => {
+        const filePath = path.join(dirPath, name);
+        if (fs.statSync(filePath).isDirectory()) {
+          remove(filePath);
+        } else {
+          fs.unlinkSync(filePath);
+        }
+      });
+      fs.rmdirSync(dirPath);
+    };
+    remove(basePath);
+  });
+
+  it('reverts what the import recreated from NMM', () => {
+    const downloadPath = path.join(basePath, 'downloads');
+    fs.mkdirSync(downloadPath);
+    fs.writeFileSync(path.join(downloadPath, 'b.7z'), '');
+    const sessionPath = path.join(basePath, 'session');
+
+    const journal: IJournalState = {
+      ...ImportJournal.parse(sessionPath, ''),
+      startTime: 1,
+      plan: { gameId: 'skyrim', source: [], strategy: 'copy', mods: [] },
+      registered: ['a.7z', 'b.7z'],
+      archiveIds: { 'a.7z': 'dl-a', 'b.7z': 'dl-b' },
+      unmanagedMods: { 1: 'nmm-unmanaged-1' },
+      rules: [{ modId: 'mod-a', rule: { type: 'after', reference: { id: 'mod-c' } } }],
+      profiles: ['profile-1', 'profile-2'],
+      loadOrder: { mode: 'rules', plugins: ['a.esp', 'b.esp'] },
+      finished: true,
+    };
+    const state = {
+      downloadPath,
+      persistent: {
+        downloads: { files: { 'dl-a': {}, 'dl-b': {} } },
+        mods: {
+          skyrim: {
+            'mod-a': { archiveId: 'dl-a', attributes: { name: 'Mod A' } },
+            'nmm-unmanaged-1': { attributes: { name: 'Unmanaged (imported)' } },
+          },
+        },
+        profiles: {
+          'profile-1': { name: 'Default (NMM)' },
+          'profile-2': { name: 'Other (NMM)' },
+        },
+        categories: { skyrim: {} },
+      },
+      settings: { profiles: { activeProfileId: 'profile-1' } },
+    };
+    const { api, dispatched, removedMods } = makeApi(state);
+
+    return undoImport(api, journal)
+      .then(result => {
+        expect(removedMods).toEqual(['nmm-unmanaged-1']);
+        expect(dispatched).toEqual([
+          { type: 'REMOVE_MOD_RULE',
+            payload: ['skyrim', 'mod-a', { type: 'after', reference: { id: 'mod-c' } }] },
+          { type: 'REMOVE_PROFILE', payload: ['profile-2'] },
+          { type: 'REMOVE_USERLIST_RULE',
+            payload: { pluginId: 'b.esp', reference: 'a.esp', type: 'after' } },
+          { type: 'REMOVE_DOWNLOAD', payload: ['dl-b'] },
+        ]);
+        expect(fs.existsSync(path.join(downloadPath, 'b.7z'))).toBe(false);
+        expect(result).toEqual({
+          removedDownloads: 1,
+          removedCategories: 0,
+          removedMods: 1,
+          removedProfiles: 1,
+          removedRules: 1,
+          notReverted: [
+            'Profile "Default (NMM)" is active, it was left in place',
+            '"a.7z" has already been installed as the mod "Mod A", it was left in place',
+          ],
+        });
+      })
+      .then(() => closed())
+      .then(() => ImportJournal.read(sessionPath))
+      .then(reread => expect(reread.reverted).toBe(true));
+  });
+
+  it('reports a load order that was overwritten', () => {
+    const journal: IJournalState = {
+      ...ImportJournal.parse(path.join(basePath, 'session'), ''),
+      plan: { gameId: 'skyrim', source: [], strategy: 'copy', mods: [] },
+      loadOrder: { mode: 'order', plugins: ['a.esp', 'b.esp'] },
+    };
+    const { api, dispatched } = makeApi({
+      persistent: { categories: { skyrim: {} } },
+      settings: { profiles: {} },
+    });
+
+    return undoImport(api, journal)
+      .then(result => {
+        expect(dispatched).toEqual([]);
+        expect(result.notReverted).toEqual([
+          'The plugin load order was overwritten with the one from NMM, it can not be restored',
+        ]);
+      })
+      .then(() => closed());
+  });
+});
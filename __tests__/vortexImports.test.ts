@@ -0,0 +1,91 @@
+/**
+ * @jest-environment node
+ */
+// shortid pulls in the browser build of nanoid (an es module) under jsdom
+import { IModEntry } from '../src/types/nmmEntries';
+import { addMetaData, applyNMMAttributes } from '../src/util/vortexImports';
+
+// just enough of the Vortex reducers to see where the information ends up
+function makeApi() {
+  const state: any = {
+    persistent: {
+      downloads: { files: { 'dl-1': { modInfo: {} } } },
+      mods: { skyrimse: { 'mod-1': { id: 'mod-1', archiveId: 'dl-1', attributes: {} } } },
+    },
+  };
+  const api: any = {
+    store: {
+      getState: () => state,
+      dispatch: (action: any) => {
+        if (action.type === 'SET_DOWNLOAD_MODINFO') {
+          const [archiveId, key, value] = action.payload;
+          state.persistent.downloads.files[archiveId].modInfo[key] = value;
+        } else if (action.type === 'SET_MOD_ATTRIBUTES') {
+          const [gameId, modId, attributes] = action.payload;
+          Object.assign(state.persistent.mods[gameId][modId].attributes, attributes);
+        }
+      },
+    },
+  };
+  return { api, state };
+}
+
+const MOD: IModEntry = {
+  nexusId: '12604',
+  vortexId: 'SkyUI_5_1_SE-12604-5-1-1554233744',
+  downloadId: undefined,
+  modName: 'SkyUI',
+  modFilename: 'SkyUI_5_1_SE-12604-5-1-1554233744.7z',
+  archivePath: 'C:\\NMM\\Mods',
+  modVersion: '5.1',
+  archiveMD5: 'abcdef',
+  importFlag: true,
+  isAlreadyManaged: false,
+  archiveId: 'dl-1',
+  customName: 'SkyUI (renamed)',
+  author: 'schlangster',
+  description: 'Elegant, PC-friendly interface mod',
+  website: 'https://www.nexusmods.com/skyrimspecialedition/mods/12604',
+  installDate: '2018-10-19 14:00:00',
+};
+
+// addMetaData doesn't wait for its dispatches
+function settled(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 10));
+}
+
+describe('applyNMMAttributes', () => {
+  it('sets the attributes from NMM on the installed mod', () => {
+    const { api, state } = makeApi();
+    addMetaData('skyrimse', [MOD], api);
+    return settled()
+      .then(() => {
+        applyNMMAttributes(api, 'skyrimse', 'dl-1', 'mod-1');
+        expect(state.persistent.mods.skyrimse['mod-1'].attributes).toEqual({
+          author: 'schlangster',
+          description: 'Elegant, PC-friendly interface mod',
+          homepage: 'https://www.nexusmods.com/skyrimspecialedition/mods/12604',
+          customFileName: 'SkyUI (renamed)',
+          installTime: new Date(2018, 9, 19, 14, 0, 0),
+        });
+      });
+  });
+
+  it('leaves the install time alone if NMM had none', () => {
+    const { api, state } = makeApi();
+    const installed = new Date(2020, 0, 1);
+    state.persistent.mods.skyrimse['mod-1'].attributes.installTime = installed;
+    addMetaData('skyrimse', [{ ...MOD, installDate: undefined }], api);
+    return settled()
+      .then(() => {
+        applyNMMAttributes(api, 'skyrimse', 'dl-1', 'mod-1');
+        expect(state.persistent.mods.skyrimse['mod-1'].attributes.installTime).toBe(installed);
+      });
+  });
+
+  it('ignores mods that were not imported', () => {
+    const { api, state } = makeApi();
+    applyNMMAttributes(api, 'skyrimse', 'dl-1', 'mod-1');
+    expect(state.persistent.mods.skyrimse['mod-1'].attributes).toEqual({});
+  });
+});
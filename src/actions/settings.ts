@@ -0,0 +1,12 @@
+import { CategoryMappingMap } from '../types/categoryMapping';
+
+import { createAction } from 'redux-act';
+
+export const addWinePrefix = createAction('NMM_IMPORT_ADD_WINE_PREFIX',
+  (prefixPath: string) => prefixPath);
+
+export const setManualFolder = createAction('NMM_IMPORT_SET_MANUAL_FOLDER',
+  (gameId: string, folderPath: string) => ({ gameId, folderPath }));
+
+export const setCategoryMappings = createAction('NMM_IMPORT_SET_CATEGORY_MAPPINGS',
+  (gameId: string, mappings: CategoryMappingMap) => ({ gameId, mappings }));
@@ -1,8 +1,11 @@
-import { IModEntry } from './types/nmmEntries';
+import { ICategoryRow } from './types/categoryMapping';
+import { IModImportResult, ModImportPhase } from './types/importApi';
+import { DuplicateReason, IModEntry } from './types/nmmEntries';
+import { IUnmanagedFile } from './types/unmanagedFiles';
 
 import * as I18next from 'i18next';
 import * as React from 'react';
-import { TableTextFilter, tooltip, types } from 'vortex-api';
+import { TableTextFilter, tooltip, types, util } from 'vortex-api';
 
 export const MOD_ID: types.ITableAttribute = {
   id: 'id',
@@ -63,24 +66,157 @@ export const FILENAME: types.ITableAttribute = {
   edit: {},
 };
 
+const DUPLICATE_REASONS: { [reason in DuplicateReason]: string } = {
+  hash: 'Vortex already manages an identical archive',
+  fileId: 'Vortex already manages this file from Nexus Mods',
+  name: 'Vortex has a different archive with the same name, importing this one will replace it',
+};
+
 export const LOCAL: types.ITableAttribute<IModEntry> = {
   id: 'local',
   name: 'Duplicate',
   description: 'Whether the mod/archive is already managed by Vortex',
   icon: 'level-up',
   customRenderer: (mod: IModEntry, detail: boolean, t: I18next.TFunction) => {
-    return mod.isAlreadyManaged ? (
+    return (mod.duplicateReason !== undefined) ? (
       <tooltip.Icon
-        id={`import-duplicate-${mod.nexusId}`}
-        tooltip={t('This archive is already managed by Vortex')}
+        id={`import-duplicate-${mod.modFilename}`}
+        tooltip={t(DUPLICATE_REASONS[mod.duplicateReason])}
         name='feedback-warning'
       />
    ) : null;
   },
-  calc: mod => mod.isAlreadyManaged,
+  calc: mod => (mod.duplicateReason !== undefined)
+    ? DUPLICATE_REASONS[mod.duplicateReason]
+    : '',
   placement: 'table',
   isToggleable: true,
   isSortable: true,
   filter: new TableTextFilter(true),
   edit: {},
 };
+
+export const UNMANAGED_PATH: types.ITableAttribute<IUnmanagedFile> = {
+  id: 'path',
+  name: 'File',
+  description: 'Path of the file relative to the data folder',
+  icon: 'file-picture-o',
+  calc: (file: IUnmanagedFile) => file.relPath,
+  placement: 'both',
+  isToggleable: false,
+  isSortable: true,
+  filter: new TableTextFilter(true),
+  edit: {},
+};
+
+export const UNMANAGED_SIZE: types.ITableAttribute<IUnmanagedFile> = {
+  id: 'size',
+  name: 'Size',
+  description: 'Size of the file',
+  icon: 'chart-bars',
+  customRenderer: (file: IUnmanagedFile) => <span>{util.bytesToString(file.size)}</span>,
+  calc: (file: IUnmanagedFile) => file.size,
+  placement: 'table',
+  isToggleable: true,
+  isSortable: true,
+  edit: {},
+};
+
+export const CATEGORY_NAME: types.ITableAttribute<ICategoryRow> = {
+  id: 'name',
+  name: 'NMM Category',
+  description: 'Name of the category in NMM',
+  icon: 'quote-left',
+  calc: (row: ICategoryRow) => row.name,
+  placement: 'both',
+  isToggleable: false,
+  isSortable: true,
+  filter: new TableTextFilter(true),
+  edit: {},
+};
+
+export const CATEGORY_MODS: types.ITableAttribute<ICategoryRow> = {
+  id: 'mods',
+  name: 'Mods',
+  description: 'Number of mods selected for import that are in this category',
+  icon: 'hashtag',
+  calc: (row: ICategoryRow) => row.modCount,
+  placement: 'table',
+  isToggleable: true,
+  isSortable: true,
+  edit: {},
+};
+
+export const RESULT_NAME: types.ITableAttribute<IModImportResult> = {
+  id: 'name',
+  name: 'Mod Name',
+  description: 'The Name of the mod',
+  icon: 'quote-left',
+  calc: (result: IModImportResult) => result.modName,
+  placement: 'both',
+  isToggleable: false,
+  isSortable: true,
+  filter: new TableTextFilter(true),
+  edit: {},
+};
+
+export const RESULT_STATUS: types.ITableAttribute<IModImportResult> = {
+  id: 'status',
+  name: 'Status',
+  description: 'Whether the archive was imported',
+  icon: 'level-up',
+  calc: (result: IModImportResult) => (result.status === 'imported') ? 'Imported' : 'Failed',
+  placement: 'both',
+  isToggleable: false,
+  isSortable: true,
+  filter: new TableTextFilter(false),
+  edit: {},
+};
+
+const PHASES: { [phase in ModImportPhase]: string } = {
+  transfer: 'Transferring the archive',
+  register: 'Adding the download',
+};
+
+export const RESULT_ERROR: types.ITableAttribute<IModImportResult> = {
+  id: 'error',
+  name: 'Error',
+  description: 'Why the archive couldn\'t be imported',
+  icon: 'feedback-error',
+  calc: (result: IModImportResult) => (result.status === 'failed')
+    ? `${PHASES[result.phase]}: ${result.error}` + ((result.code !== undefined)
+      ? ` (${result.code})`
+      : '')
+    : '',
+  placement: 'both',
+  isToggleable: true,
+  isSortable: true,
+  filter: new TableTextFilter(true),
+  edit: {},
+};
+
+export const RESULT_SIZE: types.ITableAttribute<IModImportResult> = {
+  id: 'size',
+  name: 'Size',
+  description: 'Size of the archive',
+  icon: 'chart-bars',
+  customRenderer: (result: IModImportResult) => <span>{util.bytesToString(result.bytes)}</span>,
+  calc: (result: IModImportResult) => result.bytes,
+  placement: 'table',
+  isToggleable: true,
+  isSortable: true,
+  edit: {},
+};
+
+export const RESULT_ARCHIVE_ID: types.ITableAttribute<IModImportResult> = {
+  id: 'archiveId',
+  name: 'Download Id',
+  description: 'Id of the download Vortex created for the archive',
+  icon: 'id-badge',
+  calc: (result: IModImportResult) => result.archiveId,
+  placement: 'both',
+  isToggleable: true,
+  isSortable: true,
+  isDefaultVisible: false,
+  edit: {},
+};
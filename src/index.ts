@@ -1,5 +1,14 @@
 import { setImportStep } from './actions/session';
 import { sessionReducer } from './reducers/session';
+import { settingsReducer } from './reducers/settings';
+import { INMMImportAPI } from './types/importApi';
+import { isGameSupported, registerGame } from './util/gameSupport';
+import { findNMMInstances, finishImport, getModEntries, retryFailed,
+         runImport } from './util/importApi';
+import ImportJournal from './util/ImportJournal';
+import { buildImportPlan } from './util/importPlan';
+import { undoImport } from './util/undoImport';
+import { applyNMMAttributes } from './util/vortexImports';
 import ImportDialog from './views/ImportDialog';
 
 import * as path from 'path';
@@ -20,50 +29,100 @@ function nmmConfigExists(): boolean {
   }
 }
 
-const isGameSupported = (context: types.IExtensionContext): boolean => {
-  const state = context.api.store.getState();
-  const gameId: string = selectors.activeGameId(state);
-  return ([
-    'skyrim', 'skyrimse',  'skyrimvr',
-    'morrowind', 'oblivion', 'fallout3',
-    'falloutnv', 'fallout4', 'fallout4vr',
-    'enderal', 'monsterhunterworld', 'witcher2',
-    'witcher3', 'xrebirth', 'xcom2',
-    'worldoftanks', 'warthunder', 'teso',
-    'stateofdecay', 'starbound', 'legendsofgrimrock',
-    'dragonsdogma', 'dragonage', 'dragonage2',
-    'darksouls', 'darksouls2', 'breakingwheel',
-    'nomanssky',
-  ].indexOf(gameId) !== -1);
-};
+const activeGameSupported = (context: types.IExtensionContext): boolean =>
+  isGameSupported(selectors.activeGameId(context.api.store.getState()));
 
-function init(context: types.IExtensionContext): boolean {
-  if (process.platform !== 'win32') {
-    // not going to work on other platforms because some of the path resolution
-    // assumes windows.
-    return false;
-  }
+function undoLastImport(api: types.IExtensionApi) {
+  const gameId: string = selectors.activeGameId(api.store.getState());
+  ImportJournal.findRevertable(gameId)
+    .then(journal => {
+      if (journal === undefined) {
+        api.sendNotification({
+          type: 'info',
+          message: 'There is no NMM import to undo for this game',
+          displayMS: 5000,
+        });
+        return Promise.resolve();
+      }
 
-  context.registerReducer(['session', 'modimport'], sessionReducer);
+      return api.showDialog('question', 'Undo NMM import', {
+        text: 'This will remove the {{count}} archives imported from NMM on {{date}} from your '
+            + 'downloads, along with the categories created for them, the mods created from '
+            + 'unmanaged files and the conflict rules, profiles and plugin rules recreated '
+            + 'from NMM. Mods you already installed from these archives will not be removed.',
+        parameters: {
+          count: journal.registered.length,
+          date: new Date(journal.startTime).toLocaleString(),
+        },
+      }, [
+        { label: 'Cancel' },
+        { label: 'Undo' },
+      ])
+      .then(res => (res.action === 'Undo')
+        ? undoImport(api, journal)
+          .then(result => api.showDialog('info', 'NMM import undone', {
+            text: 'Removed {{downloads}} downloads, {{categories}} categories, {{mods}} mods, '
+                + '{{profiles}} profiles and {{rules}} conflict rules.',
+            parameters: {
+              downloads: result.removedDownloads,
+              categories: result.removedCategories,
+              mods: result.removedMods,
+              profiles: result.removedProfiles,
+              rules: result.removedRules,
+            },
+            message: (result.notReverted.length > 0)
+              ? 'The following could not be reverted:\n' + result.notReverted.join('\n')
+              : undefined,
+          }, [ { label: 'Close' } ]))
+        : Promise.resolve());
+    })
+    .catch(err => {
+      api.showErrorNotification('Failed to undo NMM import', err);
+    });
+}
 
-  const gameModeActive = (store) => selectors.activeGameId(store.getState()) !== undefined 
-    ? true
-    : false;
+function init(context: types.IExtensionContext): boolean {
+  context.registerReducer(['session', 'modimport'], sessionReducer);
+  context.registerReducer(['settings', 'modimport'], settingsReducer);
 
   context.registerDialog('nmm-import', ImportDialog, () => ({
   }));
 
+  const importApi: INMMImportAPI = {
+    findInstances: (gameId) => findNMMInstances(context.api, gameId),
+    getMods: (gameId, source, cb) =>
+      getModEntries(context.api, gameId, source, undefined, cb),
+    plan: (gameId, source, mods, strategy, categoryMapping) =>
+      buildImportPlan(context.api, gameId, source, mods,
+                      mod => !mod.isAlreadyManaged, strategy || 'copy',
+                      categoryMapping || util.getSafe(context.api.getState(),
+                        ['settings', 'modimport', 'categoryMappings', gameId], {})),
+    run: (gameId, options) => runImport(context.api, gameId, options),
+    retry: (result, options) => retryFailed(context.api, result, options),
+    finish: (result, options) => finishImport(context.api, result, options),
+    registerGame: (game) => registerGame(game),
+  };
+  // one object instead of a function per operation so the api doesn't clutter api.ext
+  (context.api.ext as any).nmmImport = importApi;
+
   context.registerAction('mod-icons', 115, 'import', {}, 'Import From NMM', () => {
     context.api.store.dispatch(setImportStep('start'));
-  }, () => isGameSupported(context));
+  }, () => activeGameSupported(context));
+
+  context.registerAction('mod-icons', 116, 'undo', {}, 'Undo NMM Import', () => {
+    undoLastImport(context.api);
+  }, () => activeGameSupported(context));
 
   context.registerToDo('import-nmm', 'search', () => ({}), 'import', 'Import from NMM', () => {
     context.api.store.dispatch(setImportStep('start'));
     context.api.events.emit('analytics-track-click-event', 'Dashboard', 'NMM Import');
-  }, () => nmmConfigExists() && gameModeActive(context.api.store),  '', 100);
+  }, () => nmmConfigExists() && activeGameSupported(context),  '', 100);
 
   context.once(() => {
     context.api.setStylesheet('nmm-import-tool', path.join(__dirname, 'import-tool.scss'));
+    context.api.events.on('did-install-mod',
+      (gameId: string, archiveId: string, modId: string) =>
+        applyNMMAttributes(context.api, gameId, archiveId, modId));
   });
 
   return true;
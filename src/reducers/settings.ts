@@ -0,0 +1,27 @@
+import { types, util } from 'vortex-api';
+
+import * as actions from '../actions/settings';
+
+/**
+ * reducer for changes to persistent import settings
+ */
+export const settingsReducer: types.IReducerSpec = {
+  reducers: {
+    [actions.addWinePrefix as any]: (state, payload) =>
+      (state.winePrefixes.indexOf(payload) !== -1)
+        ? state
+        : util.pushSafe(state, ['winePrefixes'], payload),
+    [actions.setManualFolder as any]: (state, payload) =>
+      util.setSafe(state, ['manualFolders', payload.gameId], payload.folderPath),
+    [actions.setCategoryMappings as any]: (state, payload) =>
+      util.setSafe(state, ['categoryMappings', payload.gameId], {
+        ...util.getSafe(state, ['categoryMappings', payload.gameId], {}),
+        ...payload.mappings,
+      }),
+  },
+  defaults: {
+    winePrefixes: [],
+    manualFolders: {},
+    categoryMappings: {},
+  },
+};
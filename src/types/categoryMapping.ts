@@ -0,0 +1,30 @@
+// 'map' assigns an existing Vortex category, 'merge' treats the NMM category like
+//  another NMM category and 'create' adds it below "Imported from NMM"
+export type CategoryAction = 'map' | 'merge' | 'create';
+
+export interface ICategoryMapping {
+  action: CategoryAction;
+  // the Vortex category id when mapping, the name of the NMM category when merging
+  target?: string;
+}
+
+// Keyed by the NMM category name, the ids differ between NMM instances.
+export type CategoryMappingMap = { [nmmCategory: string]: ICategoryMapping };
+
+// The category NMM assigned a mod to
+export interface IModCategory {
+  nmmId: string;
+  name: string;
+  // the Vortex category if the NMM category is one of the stock Nexus categories
+  //  Vortex knows, undefined for custom NMM categories
+  vortexId: string;
+}
+
+export interface ICategoryRow {
+  name: string;
+  // number of mods selected for import that are in this category
+  modCount: number;
+  // id of the Vortex category that matches best, undefined if none is close
+  suggestion: string;
+  mapping: ICategoryMapping;
+}
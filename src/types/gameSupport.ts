@@ -0,0 +1,16 @@
+export interface IGameSupport {
+  // game id as used by Vortex
+  gameId: string;
+  // the ids NMM uses for the game mode in its settings, the first one found is used
+  nmmModeIds: string[];
+  // folder inside %LOCALAPPDATA% in which the game (and NMM) keeps plugins.txt
+  //  and loadorder.txt, only set for games with plugin management
+  pluginFolder?: string;
+  // folder relative to the game directory the mods get deployed to, only used
+  //  if the game extension isn't available to tell us
+  dataPath?: string;
+  // files in the data folder that come with the game, relative to the data folder
+  //  with "*" as a wildcard. These never get offered as unmanaged files
+  stockFiles?: string[];
+  supported: boolean;
+}
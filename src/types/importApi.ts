@@ -0,0 +1,100 @@
+import { CategoryMappingMap } from './categoryMapping';
+import { IGameSupport } from './gameSupport';
+import { IImportPlan } from './importPlan';
+import { InstallerChoicesMap } from './installerChoices';
+import { ILoadOrderEntry, LoadOrderMode } from './loadOrder';
+import { IModEntry, INMMProfile, ModsMap, ProgressCB } from './nmmEntries';
+import { TransferProgressCB, TransferStrategy } from './transferTypes';
+import { IUnmanagedFile } from './unmanagedFiles';
+
+import Promise from 'bluebird';
+
+export interface IFinishOptions {
+  // start the installation of the imported archives
+  install: boolean;
+  // plugin load order to restore once the mods are installed
+  loadOrder?: ILoadOrderEntry[];
+  loadOrderMode?: LoadOrderMode;
+  // NMM profiles to recreate and which of them to activate
+  profiles?: INMMProfile[];
+  activeProfile?: string;
+}
+
+export interface IRunImportOptions {
+  // NMM instance as returned by findInstances
+  source: string[];
+  // the mods to import
+  mods: IModEntry[];
+  strategy?: TransferStrategy;
+  concurrency?: number;
+  // how NMM categories become Vortex categories
+  categoryMapping?: CategoryMappingMap;
+  // files from the data folder to turn into mods
+  unmanagedFiles?: IUnmanagedFile[];
+  // NMM plugin load order, stored with the import session
+  loadOrder?: ILoadOrderEntry[];
+  // session path of an unfinished import to resume
+  resumeSession?: string;
+  onProgress?: TransferProgressCB;
+  // finish the import right away, otherwise call finishImport
+  finish?: IFinishOptions;
+}
+
+export type ModImportStatus = 'imported' | 'failed';
+
+// 'transfer' covers getting the archive into the download folder and verifying it,
+//  'register' adding it to the downloads Vortex knows
+export type ModImportPhase = 'transfer' | 'register';
+
+export interface IModImportResult {
+  modFilename: string;
+  modName: string;
+  status: ModImportStatus;
+  // how far the import got, for failed mods the step that failed
+  phase: ModImportPhase;
+  error?: string;
+  code?: string;
+  bytes: number;
+  archiveId?: string;
+}
+
+export interface IRetryOptions {
+  strategy?: TransferStrategy;
+  concurrency?: number;
+  onProgress?: TransferProgressCB;
+}
+
+export interface IImportResult {
+  gameId: string;
+  sessionPath: string;
+  logFilePath: string;
+  // outcome for every archive, keyed by archive file name
+  results: { [modFilename: string]: IModImportResult };
+  imported: IModEntry[];
+  // file names of the archives that failed to import
+  failed: string[];
+  installerChoices: InstallerChoicesMap;
+  // file names of the archives whose installer options couldn't be restored
+  unmappedChoices: string[];
+  // ids of the mods generated from unmanaged files
+  unmanagedMods: string[];
+}
+
+/**
+ * made available to other extensions and scripts as api.ext.nmmImport
+ */
+export interface INMMImportAPI {
+  findInstances: (gameId: string) => Promise<string[][]>;
+  getMods: (gameId: string, source: string[], cb?: ProgressCB) => Promise<ModsMap>;
+  // what run would do, mods that are already managed are assumed to be skipped. Uses the
+  //  category mapping saved for the game unless one is passed in
+  plan: (gameId: string, source: string[], mods: IModEntry[],
+         strategy?: TransferStrategy,
+         categoryMapping?: CategoryMappingMap) => Promise<IImportPlan>;
+  run: (gameId: string, options: IRunImportOptions) => Promise<IImportResult>;
+  // import the archives that failed again, in the same session
+  retry: (result: IImportResult, options?: IRetryOptions) => Promise<IImportResult>;
+  finish: (result: IImportResult, options: IFinishOptions) => Promise<void>;
+  // add a game to the supported games or change how it's imported
+  registerGame: (game: IGameSupport) => void;
+}
@@ -0,0 +1,30 @@
+import { DuplicateReason } from './nmmEntries';
+import { TransferStrategy } from './transferTypes';
+
+export interface IPlanEntry {
+  modFilename: string;
+  modName: string;
+  // whether the archive would be imported
+  import: boolean;
+  duplicateReason: DuplicateReason;
+  archiveSize: number;
+  // name of the Vortex category the mod would be assigned to
+  category: string;
+  // the category doesn't exist in Vortex yet and would be created
+  newCategory: boolean;
+  nexusModId: string;
+  nexusFileId: number;
+  // where the archive would end up
+  targetPath: string;
+}
+
+export interface IImportPlan {
+  gameId: string;
+  // mods folder of the NMM instance
+  source: string;
+  strategy: TransferStrategy;
+  created: number;
+  entries: IPlanEntry[];
+}
+
+export type PlanFormat = 'json' | 'csv' | 'html';
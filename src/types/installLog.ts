@@ -0,0 +1,18 @@
+export interface IInstallLogMod {
+  key: string;
+  archiveName: string;
+  name: string;
+  version: string;
+  installDate?: string;
+}
+
+export interface IInstallLog {
+  // Keyed by the lower cased archive file name.
+  mods: { [archiveName: string]: IInstallLogMod };
+  // Keyed by the NMM mod key, lists every data file the mod installed
+  //  (normalized, relative to the data folder).
+  files: { [modKey: string]: string[] };
+  // Keyed by the normalized data file path, the key of the mod that
+  //  installed the file last and thus provides it.
+  owners: { [filePath: string]: string };
+}
@@ -0,0 +1,21 @@
+export interface IChoice {
+  name: string;
+  idx: number;
+}
+
+export interface IChoiceGroup {
+  name: string;
+  choices: IChoice[];
+}
+
+export interface IChoiceStep {
+  name: string;
+  groups: IChoiceGroup[];
+}
+
+export interface IInstallerChoices {
+  type: 'fomod';
+  options: IChoiceStep[];
+}
+
+export type InstallerChoicesMap = { [modFilename: string]: IInstallerChoices };
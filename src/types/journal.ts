@@ -0,0 +1,55 @@
+import { ILoadOrderEntry, LoadOrderMode } from './loadOrder';
+import { IModEntry } from './nmmEntries';
+import { TransferStrategy } from './transferTypes';
+import { IUnmanagedFile } from './unmanagedFiles';
+
+export interface IJournalPlan {
+  gameId: string;
+  // the source tuple the import was started from
+  source: string[];
+  strategy: TransferStrategy;
+  // mod entries after category resolution, including their archive ids
+  mods: IModEntry[];
+  // NMM plugin load order at the time of the import
+  loadOrder?: ILoadOrderEntry[];
+  // files from the data folder to turn into mods
+  unmanagedFiles?: IUnmanagedFile[];
+}
+
+// a "load after" rule added to an installed mod
+export interface IJournalRule {
+  modId: string;
+  rule: { type: string, reference: { id: string, fileMD5?: string } };
+}
+
+export type JournalEvent =
+  { event: 'plan', time: number, plan: IJournalPlan }
+  | { event: 'transferred', time: number, modFilename: string }
+  | { event: 'registered', time: number, modFilename: string, archiveId: string }
+  | { event: 'category', time: number, categoryId: string }
+  | { event: 'unmanaged', time: number, group: number, modId: string }
+  | { event: 'rule', time: number, rule: IJournalRule }
+  | { event: 'profile', time: number, profileId: string }
+  | { event: 'loadorder', time: number, mode: LoadOrderMode, plugins: string[] }
+  | { event: 'finished', time: number }
+  | { event: 'reverted', time: number };
+
+export interface IJournalState {
+  sessionPath: string;
+  startTime: number;
+  plan: IJournalPlan;
+  transferred: string[];
+  registered: string[];
+  // archive ids of the registered downloads, by mod file name
+  archiveIds: { [modFilename: string]: string };
+  // categories created by the import
+  categories: string[];
+  // ids of the mods generated from unmanaged files, by group
+  unmanagedMods: { [group: number]: string };
+  // what finishImport recreated from the NMM setup
+  rules: IJournalRule[];
+  profiles: string[];
+  loadOrder: { mode: LoadOrderMode, plugins: string[] };
+  finished: boolean;
+  reverted: boolean;
+}
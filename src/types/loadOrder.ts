@@ -0,0 +1,8 @@
+export interface ILoadOrderEntry {
+  name: string;
+  enabled: boolean;
+}
+
+// 'order' overwrites the plugin order directly, 'rules' turns it into
+//  "load after" user rules which LOOT respects when sorting
+export type LoadOrderMode = 'order' | 'rules';
@@ -9,13 +9,25 @@ export interface IModEntry {
   archivePath: string;
   modVersion: string;
   archiveMD5: string;
+  archiveSize?: number;
   importFlag: boolean;
   isAlreadyManaged: boolean;
+  duplicateReason?: DuplicateReason;
   archiveId?: string;
   categoryId?: string;
   customName?: string;
+  author?: string;
+  description?: string;
+  website?: string;
+  // when NMM installed the mod, as stored in its install log
+  installDate?: string;
+  fileEntries?: IFileEntry[];
 }
 
+// hash: identical archive, fileId: same Nexus file,
+//  name: an archive with the same name but different content
+export type DuplicateReason = 'hash' | 'fileId' | 'name';
+
 export interface IFileEntry {
   fileSource: string;
   fileDestination: string;
@@ -23,6 +35,14 @@ export interface IFileEntry {
   filePriority: number;
 }
 
+export interface INMMProfile {
+  id: string;
+  name: string;
+  isDefault: boolean;
+  // archive file names of the mods enabled in this profile
+  modFilenames: string[];
+}
+
 export type ModsMap = { [modId: string]: IModEntry };
 export type ProgressCB = (err: Error, mod: string) => void;
 
@@ -34,3 +54,13 @@ export function ParseError(message) {
 util.inherits(ParseError, Error);
 
 ParseError.prototype.name = 'ParseError';
+
+// the file was written by a newer NMM than we know how to read
+export function UnsupportedVersionError(message) {
+  this.message = message;
+  Error.captureStackTrace(this, UnsupportedVersionError);
+}
+
+util.inherits(UnsupportedVersionError, ParseError);
+
+UnsupportedVersionError.prototype.name = 'UnsupportedVersionError';
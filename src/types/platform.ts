@@ -0,0 +1,18 @@
+export interface IProcessInfo {
+  pid: number;
+  // file name of the executable, without the path
+  exeFile: string;
+}
+
+/**
+ * the operating system facilities the importer depends on
+ */
+export interface IPlatformServices {
+  // root of the volume the path is located on
+  getVolumeRoot(dirPath: string): string;
+  // free space in bytes available to the current user on the volume
+  getFreeSpace(rootPath: string): number;
+  getProcessList(): IProcessInfo[];
+  // the folder NMM stores its per-user settings in (%LOCALAPPDATA% on windows)
+  getLocalAppData(): string;
+}
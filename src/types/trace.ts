@@ -0,0 +1,21 @@
+export type TraceLevel = 'info' | 'warn' | 'error';
+
+export type TracePhase = 'setup' | 'installer' | 'unmanaged' | 'transfer' | 'finish';
+
+export interface ITraceDetails {
+  // file name of the archive the entry is about
+  mod?: string;
+  // error code (ENOENT, EPERM, ...), taken from the extra information if not set
+  code?: string;
+}
+
+/**
+ * one line of trace.jsonl
+ */
+export interface ITraceEntry extends ITraceDetails {
+  time: string;
+  level: TraceLevel;
+  phase: TracePhase;
+  message: string;
+  extra?: string;
+}
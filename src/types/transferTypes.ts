@@ -0,0 +1,35 @@
+import { CategoryMappingMap } from './categoryMapping';
+import { ILoadOrderEntry } from './loadOrder';
+import { IUnmanagedFile } from './unmanagedFiles';
+
+export type TransferStrategy = 'copy' | 'move' | 'hardlink' | 'reflink';
+
+export const TRANSFER_STRATEGIES: TransferStrategy[] = ['copy', 'move', 'hardlink', 'reflink'];
+
+export interface IImportOptions {
+  strategy: TransferStrategy;
+  // maximum number of archives transferred at the same time
+  concurrency: number;
+  // how NMM categories become Vortex categories, by default they are matched by name
+  categoryMapping?: CategoryMappingMap;
+  // stored with the plan so a resumed import can pick them up
+  loadOrder?: ILoadOrderEntry[];
+  unmanagedFiles?: IUnmanagedFile[];
+}
+
+export interface IActiveTransfer {
+  modName: string;
+  totalBytes: number;
+  transferredBytes: number;
+}
+
+export interface ITransferProgress {
+  startTime: number;
+  totalBytes: number;
+  transferredBytes: number;
+  totalArchives: number;
+  completedArchives: number;
+  active: { [modFilename: string]: IActiveTransfer };
+}
+
+export type TransferProgressCB = (progress: ITransferProgress) => void;
@@ -0,0 +1,9 @@
+export interface IUnmanagedFile {
+  // path relative to the game's data folder
+  relPath: string;
+  size: number;
+  // index of the generated mod this file goes into, 0 to leave it alone
+  group: number;
+}
+
+export type UnmanagedFilesMap = { [relPath: string]: IUnmanagedFile };
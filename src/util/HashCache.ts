@@ -0,0 +1,79 @@
+import { fileChecksum } from './util';
+
+import Promise from 'bluebird';
+import * as path from 'path';
+import { fs, log, util } from 'vortex-api';
+
+export interface IArchiveHash {
+  md5: string;
+  size: number;
+}
+
+interface ICacheEntry extends IArchiveHash {
+  mtime: number;
+}
+
+/**
+ * md5 hashes of archives, persisted between sessions. An entry is only
+ * used as long as the size and modification time of the file are unchanged
+ */
+class HashCache {
+  private mFilePath: string;
+  private mEntries: { [filePath: string]: ICacheEntry };
+  private mLoading: Promise<void>;
+  private mDirty: boolean = false;
+
+  constructor(filePath?: string) {
+    this.mFilePath = filePath
+      || path.join(util.getVortexPath('userData'), 'nmm_import_hashes.json');
+  }
+
+  public hash(filePath: string): Promise<IArchiveHash> {
+    const key = path.resolve(filePath);
+    return this.load()
+      .then(() => fs.statAsync(filePath))
+      .then(stats => {
+        const cached = this.mEntries[key];
+        if ((cached !== undefined)
+            && (cached.size === stats.size)
+            && (cached.mtime === stats.mtimeMs)) {
+          return Promise.resolve({ md5: cached.md5, size: cached.size });
+        }
+        return Promise.resolve(fileChecksum(filePath))
+          .then(md5 => {
+            this.mEntries[key] = { md5, size: stats.size, mtime: stats.mtimeMs };
+            this.mDirty = true;
+            return { md5, size: stats.size };
+          });
+      });
+  }
+
+  public save(): Promise<void> {
+    if (!this.mDirty) {
+      return Promise.resolve();
+    }
+    this.mDirty = false;
+    return fs.writeFileAsync(this.mFilePath, JSON.stringify(this.mEntries), { encoding: 'utf-8' })
+      .catch(err => {
+        log('warn', 'Failed to store archive hashes', err.message);
+      });
+  }
+
+  private load(): Promise<void> {
+    if (this.mLoading === undefined) {
+      this.mLoading = fs.readFileAsync(this.mFilePath, { encoding: 'utf-8' })
+        .then(data => {
+          this.mEntries = JSON.parse(data);
+        })
+        .catch(err => {
+          if (err.code !== 'ENOENT') {
+            log('warn', 'Failed to read archive hashes', err.message);
+          }
+          this.mEntries = {};
+        });
+    }
+    return this.mLoading;
+  }
+}
+
+export default HashCache;
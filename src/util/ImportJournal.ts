@@ -0,0 +1,213 @@
+import { IJournalPlan, IJournalRule, IJournalState, JournalEvent } from '../types/journal';
+import { LoadOrderMode } from '../types/loadOrder';
+
+import Promise from 'bluebird';
+import * as os from 'os';
+import * as path from 'path';
+import { fs, log, util } from 'vortex-api';
+
+const JOURNAL_FILE = 'journal.jsonl';
+
+/**
+ * machine readable record of the progress of an import session, stored
+ * next to the trace log so an interrupted import can be resumed.
+ * Entries are appended one json object per line so a crash can at most
+ * cost us the last, incomplete, line.
+ */
+class ImportJournal {
+  public static parse(sessionPath: string, data: string): IJournalState {
+    const res: IJournalState = {
+      sessionPath,
+      startTime: undefined,
+      plan: undefined,
+      transferred: [],
+      registered: [],
+      archiveIds: {},
+      categories: [],
+      unmanagedMods: {},
+      rules: [],
+      profiles: [],
+      loadOrder: undefined,
+      finished: false,
+      reverted: false,
+    };
+
+    data.split(/\r?\n/).forEach(line => {
+      let entry: JournalEvent;
+      try {
+        entry = JSON.parse(line);
+      } catch (err) {
+        // empty or truncated line
+        return;
+      }
+      switch (entry.event) {
+        case 'plan': {
+          res.plan = entry.plan;
+          res.startTime = entry.time;
+          break;
+        }
+        case 'transferred': res.transferred.push(entry.modFilename); break;
+        case 'registered': {
+          res.registered.push(entry.modFilename);
+          res.archiveIds[entry.modFilename] = entry.archiveId;
+          break;
+        }
+        case 'category': res.categories.push(entry.categoryId); break;
+        case 'unmanaged': res.unmanagedMods[entry.group] = entry.modId; break;
+        case 'rule': res.rules.push(entry.rule); break;
+        case 'profile': res.profiles.push(entry.profileId); break;
+        case 'loadorder': res.loadOrder = { mode: entry.mode, plugins: entry.plugins }; break;
+        case 'finished': res.finished = true; break;
+        case 'reverted': res.reverted = true; break;
+      }
+    });
+
+    return res;
+  }
+
+  public static read(sessionPath: string): Promise<IJournalState> {
+    return fs.readFileAsync(path.join(sessionPath, JOURNAL_FILE))
+      .then((data: Buffer) => ImportJournal.parse(sessionPath, data.toString('utf-8')));
+  }
+
+  /**
+   * find the most recent import session for the specified game that was
+   * planned but never finished
+   */
+  public static findUnfinished(gameId: string): Promise<IJournalState> {
+    return ImportJournal.findLatest(gameId, journal => !journal.finished);
+  }
+
+  /**
+   * find the most recent completed import session for the specified game
+   * that hasn't been reverted yet
+   */
+  public static findRevertable(gameId: string): Promise<IJournalState> {
+    return ImportJournal.findLatest(gameId, journal =>
+      journal.finished && !journal.reverted
+      && ((journal.registered.length > 0) || (Object.keys(journal.unmanagedMods).length > 0)));
+  }
+
+  private static findLatest(gameId: string,
+                            predicate: (journal: IJournalState) => boolean)
+                            : Promise<IJournalState> {
+    const base = util.getVortexPath('userData');
+    return fs.readdirAsync(base)
+      .filter((fileName: string) => fileName.startsWith('nmm_import-'))
+      .then((sessions: string[]) => Promise.map(sessions, session =>
+        ImportJournal.read(path.join(base, session))
+          .catch(() => undefined)))
+      .then((journals: IJournalState[]) => journals
+        .filter(journal => (journal !== undefined)
+                        && (journal.plan !== undefined)
+                        && (journal.plan.gameId === gameId)
+                        && predicate(journal))
+        .sort((lhs, rhs) => rhs.startTime - lhs.startTime)[0])
+      .catch(err => {
+        log('warn', 'Failed to look for earlier NMM imports', err.message);
+        return Promise.resolve(undefined);
+      });
+  }
+
+  private mSessionPath: string;
+  private mState: IJournalState;
+  private mStream: fs.WriteStream;
+
+  constructor(sessionPath: string, state?: IJournalState) {
+    this.mSessionPath = sessionPath;
+    this.mState = state || ImportJournal.parse(sessionPath, '');
+  }
+
+  public get state(): IJournalState {
+    return this.mState;
+  }
+
+  public get isResumed(): boolean {
+    return this.mState.plan !== undefined;
+  }
+
+  public open(): Promise<void> {
+    return fs.ensureDirAsync(this.mSessionPath)
+      .then(() => {
+        this.mStream = fs.createWriteStream(path.join(this.mSessionPath, JOURNAL_FILE),
+                                            { flags: 'a' });
+      });
+  }
+
+  public plan(plan: IJournalPlan) {
+    this.mState.plan = plan;
+    this.mState.startTime = Date.now();
+    this.write({ event: 'plan', time: this.mState.startTime, plan });
+  }
+
+  public isTransferred(modFilename: string): boolean {
+    return this.mState.transferred.indexOf(modFilename) !== -1;
+  }
+
+  public isRegistered(modFilename: string): boolean {
+    return this.mState.registered.indexOf(modFilename) !== -1;
+  }
+
+  public transferred(modFilename: string) {
+    this.mState.transferred.push(modFilename);
+    this.write({ event: 'transferred', time: Date.now(), modFilename });
+  }
+
+  public registered(modFilename: string, archiveId: string) {
+    this.mState.registered.push(modFilename);
+    this.mState.archiveIds[modFilename] = archiveId;
+    this.write({ event: 'registered', time: Date.now(), modFilename, archiveId });
+  }
+
+  public categoryCreated(categoryId: string) {
+    this.mState.categories.push(categoryId);
+    this.write({ event: 'category', time: Date.now(), categoryId });
+  }
+
+  public unmanagedCreated(group: number, modId: string) {
+    this.mState.unmanagedMods[group] = modId;
+    this.write({ event: 'unmanaged', time: Date.now(), group, modId });
+  }
+
+  public ruleAdded(rule: IJournalRule) {
+    this.mState.rules.push(rule);
+    this.write({ event: 'rule', time: Date.now(), rule });
+  }
+
+  public profileCreated(profileId: string) {
+    this.mState.profiles.push(profileId);
+    this.write({ event: 'profile', time: Date.now(), profileId });
+  }
+
+  public loadOrderApplied(mode: LoadOrderMode, plugins: string[]) {
+    this.mState.loadOrder = { mode, plugins };
+    this.write({ event: 'loadorder', time: Date.now(), mode, plugins });
+  }
+
+  public finish() {
+    this.mState.finished = true;
+    this.write({ event: 'finished', time: Date.now() });
+    this.close();
+  }
+
+  public revert() {
+    this.mState.reverted = true;
+    this.write({ event: 'reverted', time: Date.now() });
+    this.close();
+  }
+
+  public close() {
+    if (this.mStream !== undefined) {
+      this.mStream.end();
+      this.mStream = undefined;
+    }
+  }
+
+  private write(entry: JournalEvent) {
+    if (this.mStream !== undefined) {
+      this.mStream.write(JSON.stringify(entry) + os.EOL);
+    }
+  }
+}
+
+export default ImportJournal;
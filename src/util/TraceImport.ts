@@ -1,32 +1,77 @@
+import { ITraceDetails, ITraceEntry, TraceLevel, TracePhase } from '../types/trace';
+
 import Promise from 'bluebird';
 import * as os from 'os';
 import * as path from 'path';
 import { inspect } from 'util';
 import { fs, util } from 'vortex-api';
 
+const TRACE_FILE = 'trace.jsonl';
+
 class TraceImport {
+  /**
+   * read the structured trace of an import session
+   */
+  public static readTrace(sessionPath: string): Promise<ITraceEntry[]> {
+    return fs.readFileAsync(path.join(sessionPath, TRACE_FILE), { encoding: 'utf-8' })
+      .then((data: string) => data.split(/\r?\n/)
+        .filter(line => line.length > 0)
+        .map(line => {
+          try {
+            return JSON.parse(line);
+          } catch (err) {
+            // the last line may be incomplete if Vortex was closed during the import
+            return undefined;
+          }
+        })
+        .filter(entry => entry !== undefined))
+      .catch(err => (err.code === 'ENOENT')
+        ? Promise.resolve([])
+        : Promise.reject(err));
+  }
+
   private mPath: string;
   private mLogFile: fs.WriteStream;
+  private mTraceFile: fs.WriteStream;
+  private mPhase: TracePhase = 'setup';
 
-  constructor() {
-    const now = new Date();
-    const name = `nmm_import-${now.getTime()}`;
-    this.mPath = path.join(util.getVortexPath('userData'), name);
+  // pass in the session path of an earlier import to continue that session
+  constructor(sessionPath?: string) {
+    if (sessionPath !== undefined) {
+      this.mPath = sessionPath;
+    } else {
+      const now = new Date();
+      const name = `nmm_import-${now.getTime()}`;
+      this.mPath = path.join(util.getVortexPath('userData'), name);
+    }
+  }
+
+  public get sessionPath(): string {
+    return this.mPath;
   }
 
   public get logFilePath(): string {
     return path.join(this.mPath, 'migration.log');
   }
 
-  public initDirectory(importPath: string): Promise<void> {
+  public get traceFilePath(): string {
+    return path.join(this.mPath, TRACE_FILE);
+  }
+
+  // open the log files for writing, existing files are appended to
+  public open(): Promise<void> {
     return fs.ensureDirAsync(this.mPath)
-      .then(() => fs.createWriteStream(this.logFilePath))
-      .then(stream => {
-        this.mLogFile = stream;
-        return fs.copyAsync(
-          path.join(importPath, 'VirtualInstall', 'VirtualModConfig.xml'),
-          path.join(this.mPath, 'VirtualModConfig.xml'));
-      })
+      .then(() => {
+        this.mLogFile = fs.createWriteStream(this.logFilePath, { flags: 'a' });
+        this.mTraceFile = fs.createWriteStream(this.traceFilePath, { flags: 'a' });
+      });
+  }
+
+  public initDirectory(importPath: string): Promise<void> {
+    return this.open()
+      .then(() => fs.copyAsync(
+        path.join(importPath, 'VirtualInstall', 'VirtualModConfig.xml'),
+        path.join(this.mPath, 'VirtualModConfig.xml')))
       .catch(err => (err.code === 'ENOENT')
         // No virtual mod config.. We know this tends to happen on some
         //  configurations - resolve and keep going.
@@ -36,16 +81,47 @@ class TraceImport {
   }
 
   public finish() {
-    this.mLogFile.end();
-    this.mLogFile = undefined;
+    if (this.mLogFile !== undefined) {
+      this.mLogFile.end();
+      this.mLogFile = undefined;
+    }
+    if (this.mTraceFile !== undefined) {
+      this.mTraceFile.end();
+      this.mTraceFile = undefined;
+    }
   }
 
-  public log(level: 'info' | 'warn' | 'error', message: string, extra?: any): void {
-    let fullMessage = message;
+  // entries logged from now on belong to this phase of the import
+  public setPhase(phase: TracePhase) {
+    this.mPhase = phase;
+  }
+
+  public log(level: TraceLevel, message: string, extra?: any, details?: ITraceDetails): void {
+    const entry: ITraceEntry = {
+      time: new Date().toISOString(),
+      level,
+      phase: this.mPhase,
+      message,
+      ...details,
+    };
     if (extra !== undefined) {
-      fullMessage += ' (' + inspect(extra, { depth: null }).replace('\n', os.EOL) + ')';
+      entry.extra = (typeof(extra) === 'string') ? extra : inspect(extra, { depth: null });
+    }
+    if ((entry.code === undefined) && (extra !== undefined) && (extra !== null)
+        && (extra.code !== undefined)) {
+      entry.code = extra.code;
+    }
+
+    let fullMessage = `${entry.time} [${level}] `;
+    if (entry.mod !== undefined) {
+      fullMessage += `${entry.mod}: `;
+    }
+    fullMessage += message;
+    if (entry.extra !== undefined) {
+      fullMessage += ' (' + entry.extra.replace('\n', os.EOL) + ')';
     }
     this.mLogFile.write(fullMessage + os.EOL);
+    this.mTraceFile.write(JSON.stringify(entry) + '\n');
   }
 
   public writeFile(name: string, content: string): Promise<void> {
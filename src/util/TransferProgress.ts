@@ -0,0 +1,70 @@
+import { ITransferProgress, TransferProgressCB } from '../types/transferTypes';
+
+// Minimum delay between two progress reports, byte level progress
+//  updates would otherwise flood the UI.
+const REPORT_INTERVAL_MS = 250;
+
+/**
+ * keeps track of the bytes transferred for each archive currently being
+ * imported and reports the overall progress, throttled
+ */
+class TransferProgress {
+  private mProgress: ITransferProgress;
+  private mCallback: TransferProgressCB;
+  private mLastReport: number = 0;
+
+  constructor(totalBytes: number, totalArchives: number, callback: TransferProgressCB) {
+    this.mCallback = callback;
+    this.mProgress = {
+      startTime: Date.now(),
+      totalBytes,
+      transferredBytes: 0,
+      totalArchives,
+      completedArchives: 0,
+      active: {},
+    };
+  }
+
+  public start(modFilename: string, modName: string, totalBytes: number) {
+    this.mProgress.active[modFilename] = { modName, totalBytes, transferredBytes: 0 };
+    this.report(true);
+  }
+
+  public update(modFilename: string, transferredBytes: number) {
+    const transfer = this.mProgress.active[modFilename];
+    if (transfer === undefined) {
+      return;
+    }
+    this.mProgress.transferredBytes += transferredBytes - transfer.transferredBytes;
+    transfer.transferredBytes = transferredBytes;
+    this.report(false);
+  }
+
+  // mark the archive as done, whether it succeeded or not
+  public finish(modFilename: string) {
+    const transfer = this.mProgress.active[modFilename];
+    if (transfer !== undefined) {
+      this.mProgress.transferredBytes += transfer.totalBytes - transfer.transferredBytes;
+      delete this.mProgress.active[modFilename];
+    }
+    ++this.mProgress.completedArchives;
+    this.report(true);
+  }
+
+  private report(force: boolean) {
+    const now = Date.now();
+    if (!force && ((now - this.mLastReport) < REPORT_INTERVAL_MS)) {
+      return;
+    }
+    this.mLastReport = now;
+    this.mCallback({
+      ...this.mProgress,
+      active: Object.keys(this.mProgress.active).reduce((prev, key) => {
+        prev[key] = { ...this.mProgress.active[key] };
+        return prev;
+      }, {}),
+    });
+  }
+}
+
+export default TransferProgress;
@@ -1,5 +1,8 @@
+import { IModEntry } from '../types/nmmEntries';
+import { getModCategory } from './import';
+
 import Promise from 'bluebird';
-import { fs } from 'vortex-api';
+import { fs, types } from 'vortex-api';
 
 function parseCategories(data: string): { [id: string]: string } {
   const parser = new DOMParser();
@@ -29,3 +32,21 @@ export function getCategories(categoriesPath: string): Promise<{ [id: string]: s
       return parseCategories(data.toString('utf-8'));
     });
 }
+
+/**
+ * count how many of the mods are in each custom NMM category, mods in the stock
+ * Nexus categories are assigned the Vortex category by id
+ */
+export function countCategoryUsage(modsPath: string,
+                                   mods: IModEntry[],
+                                   nmmCategories: { [id: string]: string },
+                                   vortexCategories: { [id: string]: types.ICategory })
+                                   : Promise<{ [name: string]: number }> {
+  return Promise.map(mods, mod => getModCategory(modsPath, mod, nmmCategories, vortexCategories))
+    .then(categories => categories.reduce((prev, category) => {
+      if ((category !== undefined) && (category.vortexId === undefined)) {
+        prev[category.name] = (prev[category.name] || 0) + 1;
+      }
+      return prev;
+    }, {}));
+}
@@ -0,0 +1,134 @@
+import { CategoryMappingMap, ICategoryMapping, ICategoryRow,
+         IModCategory } from '../types/categoryMapping';
+
+import { types } from 'vortex-api';
+
+// How similar two names have to be (0 to 1) for the category to be suggested
+const MIN_SIMILARITY = 0.75;
+
+function normalize(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function editDistance(lhs: string, rhs: string): number {
+  let prev = [...Array(rhs.length + 1).keys()];
+  for (let i = 1; i <= lhs.length; ++i) {
+    const row = [i];
+    for (let j = 1; j <= rhs.length; ++j) {
+      row.push(Math.min(
+        prev[j] + 1,
+        row[j - 1] + 1,
+        prev[j - 1] + ((lhs[i - 1] === rhs[j - 1]) ? 0 : 1)));
+    }
+    prev = row;
+  }
+  return prev[rhs.length];
+}
+
+export function similarity(lhs: string, rhs: string): number {
+  const lhsNorm = normalize(lhs);
+  const rhsNorm = normalize(rhs);
+  const length = Math.max(lhsNorm.length, rhsNorm.length);
+  return (length === 0)
+    ? 0
+    : 1 - editDistance(lhsNorm, rhsNorm) / length;
+}
+
+/**
+ * NMM's stock categories use the ids of the Nexus categories, so does Vortex. Custom NMM
+ * categories can reuse those ids though so the name has to match as well
+ */
+export function isStockCategory(id: string, name: string,
+                                vortexCategories: { [id: string]: types.ICategory }): boolean {
+  return (vortexCategories[id] !== undefined)
+    && (normalize(vortexCategories[id].name) === normalize(name));
+}
+
+/**
+ * find the Vortex category whose name is closest to the NMM category
+ */
+export function suggestCategory(name: string,
+                                vortexCategories: { [id: string]: types.ICategory }): string {
+  let best: string;
+  let bestScore = MIN_SIMILARITY;
+  Object.keys(vortexCategories).forEach(id => {
+    const score = similarity(name, vortexCategories[id].name);
+    if (score >= bestScore) {
+      best = id;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+export function buildCategoryRows(nmmCategories: { [id: string]: string },
+                                  usage: { [name: string]: number },
+                                  vortexCategories: { [id: string]: types.ICategory },
+                                  saved: CategoryMappingMap): ICategoryRow[] {
+  // stock Nexus categories are resolved by id
+  const names = Array.from(new Set(Object.keys(nmmCategories)
+    .filter(id => !isStockCategory(id, nmmCategories[id], vortexCategories))
+    .map(id => nmmCategories[id])));
+  return names.map(name => {
+    const suggestion = suggestCategory(name, vortexCategories);
+    const savedMapping = saved[name];
+    const isValid = (savedMapping !== undefined)
+      && ((savedMapping.action !== 'map') || (vortexCategories[savedMapping.target] !== undefined))
+      && ((savedMapping.action !== 'merge') || (names.indexOf(savedMapping.target) !== -1));
+    return {
+      name,
+      modCount: usage[name] || 0,
+      suggestion,
+      mapping: isValid
+        ? savedMapping
+        : (suggestion !== undefined)
+          ? { action: 'map', target: suggestion }
+          : { action: 'create' },
+    };
+  });
+}
+
+/**
+ * the category the NMM category ends up as once merges are followed
+ */
+export function resolveMapping(name: string,
+                               mappings: CategoryMappingMap)
+                               : { name: string, mapping: ICategoryMapping } {
+  const visited = new Set<string>();
+  let mapping = mappings[name];
+  while ((mapping !== undefined) && (mapping.action === 'merge') && !visited.has(name)) {
+    visited.add(name);
+    name = mapping.target;
+    mapping = mappings[name];
+  }
+  return {
+    name,
+    mapping: ((mapping !== undefined) && (mapping.action === 'merge')) ? undefined : mapping,
+  };
+}
+
+/**
+ * the Vortex category a mod in the NMM category ends up in. Stock categories are used as
+ * they are, custom ones go through the mapping. The id is undefined if the category
+ * doesn't exist yet and has to be created under the returned name
+ */
+export function findVortexCategory(category: IModCategory,
+                                   mappings: CategoryMappingMap,
+                                   vortexCategories: { [id: string]: types.ICategory })
+                                   : { id: string, name: string } {
+  if (category.vortexId !== undefined) {
+    return { id: category.vortexId, name: vortexCategories[category.vortexId].name };
+  }
+  const { name, mapping } = resolveMapping(category.name, mappings);
+  if ((mapping !== undefined) && (mapping.action === 'map')
+      && (vortexCategories[mapping.target] !== undefined)) {
+    return { id: mapping.target, name: vortexCategories[mapping.target].name };
+  }
+
+  // categories created for the import are only reused when the user asked for new ones
+  const existing = Object.keys(vortexCategories).find(key =>
+    (vortexCategories[key].name === name)
+    && (((mapping === undefined) || (mapping.action !== 'create'))
+        || (vortexCategories[key].parentCategory === 'nmm_0')));
+  return { id: existing, name };
+}
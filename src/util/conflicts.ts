@@ -0,0 +1,57 @@
+import { IFileEntry, IModEntry } from '../types/nmmEntries';
+import { normalizeDataPath } from './installLog';
+
+export interface IConflictRule {
+  // archive file names of the mods involved
+  winner: string;
+  loser: string;
+}
+
+interface IFileOwner {
+  modFilename: string;
+  entry: IFileEntry;
+}
+
+// The active link is the one NMM deployed, otherwise the lowest priority
+//  value wins.
+function compareLinks(lhs: IFileOwner, rhs: IFileOwner): number {
+  if (lhs.entry.isActive !== rhs.entry.isActive) {
+    return lhs.entry.isActive ? -1 : 1;
+  }
+  return lhs.entry.filePriority - rhs.entry.filePriority;
+}
+
+/**
+ * determine, based on the file links NMM recorded, which mod won each
+ * file conflict. Pairs of mods that won against each other on different files
+ * can't be expressed as a rule and are left out
+ */
+export function findConflictRules(mods: IModEntry[]): IConflictRule[] {
+  const owners: { [filePath: string]: IFileOwner[] } = {};
+  mods.forEach(mod => (mod.fileEntries || []).forEach(entry => {
+    const filePath = normalizeDataPath(entry.fileDestination || '');
+    if (owners[filePath] === undefined) {
+      owners[filePath] = [];
+    }
+    if (owners[filePath].find(owner => owner.modFilename === mod.modFilename) === undefined) {
+      owners[filePath].push({ modFilename: mod.modFilename, entry });
+    }
+  }));
+
+  const rules: { [key: string]: IConflictRule } = {};
+  Object.keys(owners)
+    .filter(filePath => owners[filePath].length > 1)
+    .forEach(filePath => {
+      const sorted = owners[filePath].slice().sort(compareLinks);
+      sorted.slice(1).forEach(loser => {
+        rules[`${sorted[0].modFilename}:${loser.modFilename}`] = {
+          winner: sorted[0].modFilename,
+          loser: loser.modFilename,
+        };
+      });
+    });
+
+  return Object.keys(rules)
+    .filter(key => rules[`${rules[key].loser}:${rules[key].winner}`] === undefined)
+    .map(key => rules[key]);
+}
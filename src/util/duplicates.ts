@@ -0,0 +1,86 @@
+import { DuplicateReason, IModEntry } from '../types/nmmEntries';
+
+import { types, util } from 'vortex-api';
+
+export interface IDuplicateIndex {
+  md5s: Set<string>;
+  // lower cased archive file names
+  fileNames: Set<string>;
+  fileIds: Set<string>;
+}
+
+/**
+ * collect what identifies the archives Vortex already knows about for a game,
+ * both from the downloads and from the installed mods (whose download may
+ * have been deleted since)
+ */
+export function buildDuplicateIndex(state: types.IState, gameId: string): IDuplicateIndex {
+  const downloads = util.getSafe(state, ['persistent', 'downloads', 'files'], {});
+  const mods = util.getSafe(state, ['persistent', 'mods', gameId], {});
+  const result: IDuplicateIndex = {
+    md5s: new Set<string>(),
+    fileNames: new Set<string>(),
+    fileIds: new Set<string>(),
+  };
+
+  const add = (md5: string, fileName: string, fileId: any) => {
+    if (!!md5) {
+      result.md5s.add(md5);
+    }
+    if (!!fileName) {
+      result.fileNames.add(fileName.toLowerCase());
+    }
+    if (!!fileId) {
+      result.fileIds.add(fileId.toString());
+    }
+  };
+
+  Object.keys(downloads)
+    .filter(dlId => (downloads[dlId].game || []).indexOf(gameId) !== -1)
+    .forEach(dlId => {
+      const download: types.IDownload = downloads[dlId];
+      add(download.fileMD5, download.localPath,
+          util.getSafe(download, ['modInfo', 'nexus', 'ids', 'fileId'], undefined));
+    });
+
+  Object.keys(mods).forEach(modId => {
+    const attributes = mods[modId].attributes || {};
+    add(attributes.fileMD5, attributes.fileName, attributes.fileId);
+  });
+
+  return result;
+}
+
+/**
+ * determine why the mod is a duplicate of something Vortex already manages,
+ * undefined if it isn't
+ */
+export function getDuplicateReason(index: IDuplicateIndex, mod: IModEntry): DuplicateReason {
+  if ((index === undefined) || (mod === undefined)) {
+    return undefined;
+  }
+  if (!!mod.archiveMD5 && index.md5s.has(mod.archiveMD5)) {
+    return 'hash';
+  }
+  if (!!mod.downloadId && index.fileIds.has(mod.downloadId.toString())) {
+    return 'fileId';
+  }
+  if (!!mod.modFilename && index.fileNames.has(mod.modFilename.toLowerCase())) {
+    return 'name';
+  }
+  return undefined;
+}
+
+/**
+ * archives that differ from what Vortex has under the same name are still imported,
+ * only identical archives are skipped by default
+ */
+export function isDuplicate(reason: DuplicateReason): boolean {
+  return (reason === 'hash') || (reason === 'fileId');
+}
+
+export function markDuplicate(index: IDuplicateIndex, mod: IModEntry): IModEntry {
+  mod.duplicateReason = getDuplicateReason(index, mod);
+  mod.isAlreadyManaged = isDuplicate(mod.duplicateReason);
+  return mod;
+}
@@ -1,47 +1,47 @@
+import { getNMMModeIds } from './gameSupport';
+import { getPlatformServices } from './platform';
+import { getLocalAppDataPaths, toHostPath } from './winePrefixes';
+
 import Promise from 'bluebird';
 import * as path from 'path';
-import { fs, util } from 'vortex-api';
+import { fs } from 'vortex-api';
 
-function convertGameId(input: string): string {
-  if (input === 'skyrimse') {
-    return 'SkyrimSE';
-  } else if (input === 'falloutnv') {
-    return 'FalloutNV';
-  }
-  return input.replace(/(?:^|\s)\S/g, (a) => a.toUpperCase());
+function getSetting(xmlDoc: Document, name: string, modeId: string): Element {
+  return xmlDoc.querySelector(`setting[name="${name}"] item[modeId="${modeId}" i] string`);
 }
 
-function getVirtualFolder(userConfig: string, gameId: string): Promise<string[]> {
+function getVirtualFolder(userConfig: string, gameId: string,
+                          convertPath: (input: string) => string): Promise<string[]> {
   const parser = new DOMParser();
 
   const xmlDoc = parser.parseFromString(userConfig, 'text/xml');
 
-  let item = xmlDoc
-    .querySelector(`setting[name="VirtualFolder"] item[modeId="${convertGameId(gameId)}" i] string`);
-
-  if (item === null) {
+  // the mode NMM actually has a mods folder configured for
+  const modeId = getNMMModeIds(gameId)
+    .find(id => getSetting(xmlDoc, 'ModFolder', id) !== null);
+  if (modeId === undefined) {
     return Promise.resolve(undefined);
   }
 
-  const virtualPath = item.textContent;
+  let item = getSetting(xmlDoc, 'VirtualFolder', modeId);
+
+  // NMM versions before the virtual install didn't have this setting, we fall back
+  //  to the mods folder and read the install log from there
+  let virtualPath = (item !== null) ? convertPath(item.textContent) : undefined;
   let nmmLinkPath = '';
 
-  item = xmlDoc
-  .querySelector(`setting[name="HDLinkFolder"] item[modeId="${convertGameId(gameId)}" i] string`);
+  item = getSetting(xmlDoc, 'HDLinkFolder', modeId);
 
   if (item !== null) {
-    nmmLinkPath = item.textContent;
+    nmmLinkPath = convertPath(item.textContent);
   }
 
-  item = xmlDoc
-  .querySelector(`setting[name="ModFolder"] item[modeId="${convertGameId(gameId)}" i] string`);
-
-  if (item === null) {
-    return Promise.resolve(undefined);
+  item = getSetting(xmlDoc, 'ModFolder', modeId);
+  const modsPath = convertPath(item.textContent);
+  if (virtualPath === undefined) {
+    virtualPath = modsPath;
   }
 
-  const modsPath = item.textContent;
-
   const setting = [ virtualPath, nmmLinkPath, modsPath, '0' ];
   return fs.statAsync(modsPath)
     .then(stats => Promise.resolve([
@@ -52,8 +52,8 @@ function getVirtualFolder(userConfig: string, gameId: string): Promise<string[]>
     .catch(err => Promise.resolve(setting));
 }
 
-function findInstances(gameId: string): Promise<string[][]> {
-  const base = path.resolve(util.getVortexPath('appData'), '..', 'local', 'Black_Tree_Gaming');
+function findInBase(base: string, gameId: string,
+                    convertPath: (input: string) => string): Promise<string[][]> {
   return fs.readdirAsync(base)
     .filter((fileName: string) => fs.statAsync(path.join(base, fileName))
                                       .then(stat => stat.isDirectory()))
@@ -63,34 +63,59 @@ function findInstances(gameId: string): Promise<string[][]> {
           Promise.map(versions, version =>
             fs.readFileAsync(path.join(base, instance, version, 'user.config'))
               .then((data: Buffer) =>
-                getVirtualFolder(data.toString(), gameId))))))
+                getVirtualFolder(data.toString(), gameId, convertPath))))))
+    .then(result => [].concat(...result))
+    .catch(err => (err.code === 'ENOENT') ? Promise.resolve([]) : Promise.reject(err));
+}
+
+function findInPrefix(prefixPath: string, gameId: string): Promise<string[][]> {
+  return getLocalAppDataPaths(prefixPath)
+    .then(bases => Promise.map(bases, base =>
+      findInBase(path.join(base, 'Black_Tree_Gaming'), gameId,
+                 input => toHostPath(prefixPath, input))))
+    .then(result => [].concat(...result)
+      // remember where the instance came from
+      .map(setting => (setting !== undefined) ? [...setting, prefixPath] : undefined));
+}
+
+/**
+ * find the NMM instances managing the game. Each instance is described as
+ * [virtual folder, link folder, mods folder, creation time of the mods folder, wine prefix]
+ * with the prefix being undefined for instances not run through wine
+ */
+function findInstances(gameId: string, winePrefixes: string[] = []): Promise<string[][]> {
+  const base = path.join(getPlatformServices().getLocalAppData(), 'Black_Tree_Gaming');
+  return Promise.all([
+    findInBase(base, gameId, input => input),
+    ...winePrefixes.map(prefixPath => findInPrefix(prefixPath, gameId)),
+  ])
     .then(result => {
       // remove duplicates, in a case-insensitive way, remove undefined
       const set = result.reduce((prev: { [key: string]: string[] }, value: string[][]) => {
         value.forEach(val => {
           if (val !== undefined) {
-            if (prev[val[0].toUpperCase()] !== undefined) {
+            const key = val[0].toUpperCase();
+            if (prev[key] !== undefined) {
               // We found a duplicate entry.. Now we're faced with a problem:
               //  which of these instances is the currently active one ?
               //  - if they're both pointing to the same mods folder, then we're fine.
               //  - if they have different mods folder, we check its creation time -
               //  most recent mods folder MUST be the active one... right?
-              const existingVal = prev[val[0].toUpperCase()];
+              const existingVal = prev[key];
               if ((existingVal[2] !== val[2])
                 && (parseInt(existingVal[3], 10) < parseInt(val[3], 10))) {
-                prev[val[0].toUpperCase()] = val;
+                prev[key] = val;
               }
             } else {
               // Easy - no duplicates.
-              prev[val[0].toUpperCase()] = val;
+              prev[key] = val;
             }
           }
         });
         return prev;
       }, {});
       return Object.keys(set).map(key => set[key]);
-    })
-    .catch(err => (err.code === 'ENOENT') ? Promise.resolve([]) : Promise.reject(err));
+    });
 }
 
 export default findInstances;
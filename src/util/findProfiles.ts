@@ -0,0 +1,49 @@
+import { INMMProfile } from '../types/nmmEntries';
+
+import Promise from 'bluebird';
+import * as path from 'path';
+import { fs, log } from 'vortex-api';
+
+function readXML(filePath: string): Promise<Document> {
+  return fs.readFileAsync(filePath)
+    .then((data: Buffer) => {
+      if (data.compare(Buffer.from([0xEF, 0xBB, 0xBF]), 0, 3, 0, 3) === 0) {
+        data = data.slice(3);
+      }
+      const parser = new DOMParser();
+      return parser.parseFromString(data.toString('utf-8'), 'text/xml');
+    });
+}
+
+function getProfileMods(profilePath: string): Promise<string[]> {
+  return readXML(path.join(profilePath, 'modlist.xml'))
+    .then(xmlDoc => Array.from(xmlDoc.getElementsByTagName('modInfo'))
+      .map(modInfo => modInfo.getAttribute('modFileName'))
+      .filter(fileName => !!fileName))
+    .catch(err => {
+      log('warn', 'Failed to read NMM profile mod list', { profilePath, error: err.message });
+      return Promise.resolve([]);
+    });
+}
+
+/**
+ * list the mod profiles NMM stores inside the mods folder of the game
+ */
+function findProfiles(modsPath: string): Promise<INMMProfile[]> {
+  const base = path.join(modsPath, 'ModProfiles');
+  return readXML(path.join(base, 'profilemanager.xml'))
+    .then(xmlDoc => Promise.map(Array.from(xmlDoc.querySelectorAll('profileList profile')),
+      (profile: Element) => {
+        const id = profile.getAttribute('profileId');
+        return getProfileMods(path.join(base, id))
+          .then((modFilenames): INMMProfile => ({
+            id,
+            name: profile.getAttribute('profileName') || id,
+            isDefault: profile.getAttribute('isDefault') === 'true',
+            modFilenames,
+          }));
+      }))
+    .catch(err => (err.code === 'ENOENT') ? Promise.resolve([]) : Promise.reject(err));
+}
+
+export default findProfiles;
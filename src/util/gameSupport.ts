@@ -0,0 +1,125 @@
+import { IGameSupport } from '../types/gameSupport';
+
+const GAMES: { [gameId: string]: IGameSupport } = {};
+
+/**
+ * add a game to the table or replace the existing entry for it
+ */
+export function registerGame(game: IGameSupport) {
+  GAMES[game.gameId] = {
+    ...game,
+    nmmModeIds: game.nmmModeIds || [],
+    stockFiles: game.stockFiles || [],
+    supported: game.supported !== false,
+  };
+}
+
+export function getGameSupport(gameId: string): IGameSupport {
+  return GAMES[gameId];
+}
+
+export function isGameSupported(gameId: string): boolean {
+  return (GAMES[gameId] !== undefined) && GAMES[gameId].supported;
+}
+
+export function getNMMModeIds(gameId: string): string[] {
+  return (GAMES[gameId] !== undefined) && (GAMES[gameId].nmmModeIds.length > 0)
+    ? GAMES[gameId].nmmModeIds
+    : [gameId];
+}
+
+function wildcardExp(pattern: string): RegExp {
+  const escaped = pattern.split('*').map(seg => seg.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`^${escaped.join('[^/]*')}$`, 'i');
+}
+
+/**
+ * test whether a file (relative to the data folder) was installed with the game
+ */
+export function isStockFile(gameId: string, relPath: string): boolean {
+  if (GAMES[gameId] === undefined) {
+    return false;
+  }
+  const normalized = relPath.replace(/\\/g, '/');
+  return GAMES[gameId].stockFiles.find(pattern => wildcardExp(pattern).test(normalized))
+    !== undefined;
+}
+
+function gamebryo(gameId: string, nmmModeIds: string[], pluginFolder: string,
+                  stockFiles: string[]): IGameSupport {
+  return { gameId, nmmModeIds, pluginFolder, dataPath: 'data', stockFiles, supported: true };
+}
+
+function other(gameId: string, nmmModeIds: string[]): IGameSupport {
+  return { gameId, nmmModeIds, supported: true };
+}
+
+const SKYRIM_FILES = [
+  'skyrim.esm', 'update.esm', 'dawnguard.esm', 'hearthfires.esm', 'dragonborn.esm',
+  'skyrim - *.bsa', 'update.bsa', 'dawnguard.bsa', 'hearthfires.bsa', 'dragonborn.bsa',
+];
+
+const FALLOUT3_FILES = [
+  'fallout3.esm', 'anchorage.esm', 'thepitt.esm', 'brokensteel.esm', 'pointlookout.esm',
+  'zeta.esm', 'fallout - *.bsa', 'anchorage - *.bsa', 'thepitt - *.bsa',
+  'brokensteel - *.bsa', 'pointlookout - *.bsa', 'zeta - *.bsa',
+];
+
+const FALLOUTNV_FILES = [
+  'falloutnv.esm', 'deadmoney.esm', 'honesthearts.esm', 'oldworldblues.esm',
+  'lonesomeroad.esm', 'gunrunnersarsenal.esm', 'caravanpack.esm', 'classicpack.esm',
+  'mercenarypack.esm', 'tribalpack.esm', 'fallout - *.bsa', 'update.bsa', 'deadmoney - *.bsa',
+  'honesthearts - *.bsa', 'oldworldblues - *.bsa', 'lonesomeroad - *.bsa',
+  'gunrunnersarsenal - *.bsa', 'caravanpack - *.bsa', 'classicpack - *.bsa',
+  'mercenarypack - *.bsa', 'tribalpack - *.bsa',
+];
+
+const FALLOUT4_FILES = [
+  'fallout4.esm', 'dlcrobot.esm', 'dlcworkshop01.esm', 'dlcworkshop02.esm',
+  'dlcworkshop03.esm', 'dlccoast.esm', 'dlcnukaworld.esm', 'dlcultrahighresolution.esm',
+  'fallout4 - *.ba2', 'dlc*.ba2', 'cc*.esl', 'cc*.ba2', 'video/*',
+];
+
+[
+  gamebryo('skyrim', ['Skyrim'], 'Skyrim',
+           [...SKYRIM_FILES, 'highrestexturepack0*.esp', 'highrestexturepack0*.bsa']),
+  gamebryo('skyrimse', ['SkyrimSE'], 'Skyrim Special Edition',
+           [...SKYRIM_FILES, '_resourcepack.esl', '_resourcepack.bsa', 'cc*.esl', 'cc*.esm',
+            'cc*.bsa', 'video/*']),
+  gamebryo('skyrimvr', ['SkyrimVR'], 'Skyrim VR',
+           [...SKYRIM_FILES, 'skyrimvr.esm', 'skyrim_vr - *.bsa']),
+  gamebryo('enderal', ['Enderal'], 'enderal', [...SKYRIM_FILES, 'e - *.bsa', 'l - *.bsa']),
+  gamebryo('oblivion', ['Oblivion'], 'Oblivion',
+           ['oblivion.esm', 'oblivion - *.bsa', 'dlc*.esp', 'dlc*.bsa', 'knights.esp',
+            'knights.bsa']),
+  gamebryo('fallout3', ['Fallout3'], 'Fallout3', FALLOUT3_FILES),
+  gamebryo('falloutnv', ['FalloutNV'], 'FalloutNV', FALLOUTNV_FILES),
+  gamebryo('fallout4', ['Fallout4'], 'Fallout4', FALLOUT4_FILES),
+  gamebryo('fallout4vr', ['Fallout4VR'], 'Fallout4VR',
+           [...FALLOUT4_FILES, 'fallout4_vr.esm', 'fallout4_vr - *.ba2']),
+  // NMM manages morrowind plugins through Morrowind.ini, not plugins.txt
+  {
+    ...gamebryo('morrowind', ['Morrowind'], undefined,
+                ['morrowind.esm', 'tribunal.esm', 'bloodmoon.esm', 'morrowind.bsa',
+                 'tribunal.bsa', 'bloodmoon.bsa']),
+    dataPath: 'Data Files',
+  },
+  other('monsterhunterworld', ['MonsterHunterWorld']),
+  other('witcher2', ['Witcher2']),
+  other('witcher3', ['Witcher3']),
+  other('xrebirth', ['XRebirth']),
+  other('xcom2', ['XCOM2']),
+  other('worldoftanks', ['WorldOfTanks']),
+  other('warthunder', ['WarThunder']),
+  other('teso', ['TESO']),
+  other('stateofdecay', ['StateOfDecay']),
+  other('starbound', ['Starbound']),
+  other('legendsofgrimrock', ['LegendsOfGrimrock']),
+  other('dragonsdogma', ['DragonsDogma']),
+  other('dragonage', ['DragonAge']),
+  other('dragonage2', ['DragonAge2']),
+  other('darksouls', ['DarkSouls']),
+  other('darksouls2', ['DarkSouls2']),
+  other('breakingwheel', ['BreakingWheel']),
+  other('nomanssky', ['NoMansSky']),
+].forEach(registerGame);
@@ -1,7 +1,16 @@
+import { findVortexCategory, isStockCategory } from './categoryMapping';
+import { readInstallLog } from './installLog';
 import { transferArchive } from './modFileImport';
+import { fileChecksum } from './util';
 
+import { IModCategory } from '../types/categoryMapping';
+import { IModImportResult } from '../types/importApi';
+import { IInstallLog } from '../types/installLog';
 import {IModEntry} from '../types/nmmEntries';
+import { IImportOptions, TransferProgressCB } from '../types/transferTypes';
+import ImportJournal from './ImportJournal';
 import TraceImport from './TraceImport';
+import TransferProgress from './TransferProgress';
 import { addMetaData} from './vortexImports';
 
 import Promise from 'bluebird';
@@ -19,9 +28,10 @@ function getInner(ele: Element): string {
   return undefined;
 }
 
-function enhance(sourcePath: string, input: IModEntry,
-                 nmmCategories: { [id: string]: string },
-                 vortexCategory: (name: string) => string): Promise<IModEntry> {
+/**
+ * read the info.xml NMM cached for the mod
+ */
+function readModInfo(sourcePath: string, input: IModEntry): Promise<Document> {
   // this id is currently identically to what we store as the vortexId but I don't want
   // to rely on that always being the case
   const id = path.basename(input.modFilename, path.extname(input.modFilename));
@@ -34,15 +44,54 @@ function enhance(sourcePath: string, input: IModEntry,
     })
     .then(infoXmlData => {
       const parser = new DOMParser();
-      const xmlDoc = parser.parseFromString(infoXmlData.toString(), 'text/xml');
+      return parser.parseFromString(infoXmlData.toString(), 'text/xml');
+    });
+}
 
-      const customName = getInner(xmlDoc.querySelector('fomod Name'));
+function resolveModCategory(xmlDoc: Document,
+                            nmmCategories: { [id: string]: string },
+                            vortexCategories: { [id: string]: types.ICategory }): IModCategory {
+  const nmmId = getInner(xmlDoc.querySelector('fomod CustomCategoryId'))
+             || getInner(xmlDoc.querySelector('fomod CategoryId'));
+  if ((nmmId === undefined) || (nmmCategories[nmmId] === undefined)) {
+    return undefined;
+  }
+  const name = nmmCategories[nmmId];
+  return {
+    nmmId,
+    name,
+    vortexId: isStockCategory(nmmId, name, vortexCategories) ? nmmId : undefined,
+  };
+}
+
+/**
+ * the NMM category the mod is assigned to, undefined if it has none
+ */
+export function getModCategory(sourcePath: string, input: IModEntry,
+                               nmmCategories: { [id: string]: string },
+                               vortexCategories: { [id: string]: types.ICategory })
+                               : Promise<IModCategory> {
+  return readModInfo(sourcePath, input)
+    .then(xmlDoc => resolveModCategory(xmlDoc, nmmCategories, vortexCategories))
+    .catch(() => undefined);
+}
 
-      let categoryId = getInner(xmlDoc.querySelector('fomod CustomCategoryId'))
-                      || getInner(xmlDoc.querySelector('fomod CategoryId'));
-      const category = categoryId !== undefined ? nmmCategories[categoryId] : undefined;
+function enhance(sourcePath: string, input: IModEntry,
+                 nmmCategories: { [id: string]: string },
+                 vortexCategories: { [id: string]: types.ICategory },
+                 vortexCategory: (category: IModCategory) => string,
+                 installLog: IInstallLog): Promise<IModEntry> {
+  const logEntry = (installLog !== undefined)
+    ? installLog.mods[input.modFilename.toLowerCase()]
+    : undefined;
+  const installDate = (logEntry !== undefined) ? logEntry.installDate : undefined;
+  return readModInfo(sourcePath, input)
+    .then(xmlDoc => {
+      // NMM stores the name the user gave the mod here
+      const customName = getInner(xmlDoc.querySelector('fomod Name'));
 
-      categoryId = (category !== undefined)
+      const category = resolveModCategory(xmlDoc, nmmCategories, vortexCategories);
+      const categoryId = (category !== undefined)
         ? vortexCategory(category)
         : undefined;
 
@@ -51,27 +100,39 @@ function enhance(sourcePath: string, input: IModEntry,
         archiveId: shortid(),
         categoryId,
         customName,
+        author: getInner(xmlDoc.querySelector('fomod Author')),
+        description: getInner(xmlDoc.querySelector('fomod Description')),
+        website: getInner(xmlDoc.querySelector('fomod Website')),
+        installDate,
       };
     })
     .catch(err => ({
       ...input,
       archiveId: shortid(),
+      installDate,
     }));
 }
 
 function importArchives(api: types.IExtensionApi,
                         gameId: string,
                         trace: TraceImport,
-                        modsPath: string,
+                        journal: ImportJournal,
+                        source: string[],
                         mods: IModEntry[],
                         categories: { [id: string]: string },
-                        progress: (mod: string, idx: number) => void): Promise<string[]> {
+                        options: IImportOptions,
+                        progressCB: TransferProgressCB): Promise<IModImportResult[]> {
+  const { concurrency, strategy } = options;
+  const categoryMapping = options.categoryMapping || {};
   const store = api.store;
   const state: types.IState = store.getState();
-  const vortexCategories = state.persistent.categories[gameId];
 
-  const makeVortexCategory = (name: string): string => {
-    const existing = Object.keys(vortexCategories).find(key => vortexCategories[key].name === name);
+  const makeVortexCategory = (category: IModCategory): string => {
+    // categories get added as we go so we can't use a snapshot
+    const vortexCategories = util.getSafe(store.getState(),
+      ['persistent', 'categories', gameId], {});
+    const { id: existing, name } =
+      findVortexCategory(category, categoryMapping, vortexCategories);
     if (existing !== undefined) {
       return existing;
     }
@@ -80,6 +141,7 @@ function importArchives(api: types.IExtensionApi,
       trace.log('info', 'Adding root for imported NMM categories');
       store.dispatch(actions.setCategory(gameId, 'nmm_0',
         { name: 'Imported from NMM', order: 0, parentCategory: undefined }));
+      journal.categoryCreated('nmm_0');
     }
 
     let id = 1;
@@ -90,16 +152,12 @@ function importArchives(api: types.IExtensionApi,
     trace.log('info', 'NMM category couldn\'t be matched, importing', name);
     store.dispatch(actions.setCategory(gameId, `nmm_${id}`,
       { name, order: 0, parentCategory: 'nmm_0' }));
+    journal.categoryCreated(`nmm_${id}`);
     return `nmm_${id}`;
   };
 
-  const errors: string[] = [];
-
-  const transferArchiveFile = (source: string,
-                               dest: string,
-                               mod: IModEntry,
-                               size: number): Promise<void> => {
-    return transferArchive(source, dest).then(() => {
+  const registerArchiveFile = (mod: IModEntry, size: number, md5: string): Promise<void> => {
+    return Promise.resolve().then(() => {
       const downloads = util.getSafe(state, ['persistent', 'downloads', 'files'], undefined);
       if (downloads === undefined) {
         // The user hasn't downloaded anything yet.
@@ -119,40 +177,110 @@ function importArchives(api: types.IExtensionApi,
     .then(() => {
       store.dispatch(actions.addLocalDownload(
         mod.archiveId, gameId, mod.modFilename, size));
+      // saves Vortex from hashing the archive again
+      store.dispatch(actions.setDownloadHash(mod.archiveId, md5));
+      journal.registered(mod.modFilename, mod.archiveId);
       return Promise.resolve();
     });
   };
 
+  const transferArchiveFile = (archivePath: string,
+                               downloadPath: string,
+                               mod: IModEntry,
+                               progress: TransferProgress,
+                               result: IModImportResult): Promise<void> => {
+    if (journal.isRegistered(mod.modFilename)) {
+      result.phase = 'register';
+      trace.log('info', 'already imported in an earlier attempt', undefined,
+                { mod: mod.modFilename });
+      return Promise.resolve();
+    }
+
+    const destPath = path.join(downloadPath, mod.modFilename);
+    const transfer = journal.isTransferred(mod.modFilename)
+      // the archive may have been moved already so there is nothing to retry with
+      ? Promise.resolve(fileChecksum(destPath))
+        .then(md5 => ((md5 === mod.archiveMD5) || !mod.archiveMD5)
+          ? Promise.resolve(md5)
+          : Promise.reject(new Error('checksum mismatch')))
+      : transferArchive(archivePath, downloadPath, mod.archiveMD5, strategy,
+                        bytes => progress.update(mod.modFilename, bytes))
+        .tap(() => journal.transferred(mod.modFilename));
+    return transfer
+      .then(md5 => fs.statAsync(destPath)
+        .then(stats => {
+          result.phase = 'register';
+          return registerArchiveFile(mod, stats.size, md5);
+        }));
+  };
+
+  const modsPath = source[2];
+  const enhanced = journal.isResumed
+    // when retrying only some of the planned mods get imported again
+    ? Promise.resolve(journal.state.plan.mods.filter(planned =>
+        mods.find(mod => mod.modFilename === planned.modFilename) !== undefined))
+    : readInstallLog(modsPath)
+      .catch(err => {
+        trace.log('warn', 'Failed to read NMM install log', err.message, { code: err.code });
+        return undefined;
+      })
+      .then(installLog => Promise.map(mods, mod => enhance(modsPath, mod, categories,
+        util.getSafe(state, ['persistent', 'categories', gameId], {}), makeVortexCategory,
+        installLog)))
+      .tap(modsEx => journal.plan({ gameId, source, strategy, mods: modsEx,
+                                    loadOrder: options.loadOrder,
+                                    unmanagedFiles: options.unmanagedFiles }));
+
   return trace.writeFile('parsedMods.json', JSON.stringify(mods))
     .then(() => {
       const importedArchives: IModEntry[] = [];
-      trace.log('info', 'transfer archive files');
+      trace.log('info', 'transfer archive files', strategy);
       const downloadPath = selectors.downloadPath(state);
-      return Promise.map(mods, mod => enhance(modsPath, mod, categories, makeVortexCategory))
-        .then(modsEx => Promise.mapSeries(modsEx, (mod, idx) => {
-          trace.log('info', 'transferring', JSON.stringify(mod.modFilename, undefined, 2));
-          progress(mod.modName, idx);
-          const archivePath = path.join(mod.archivePath, mod.modFilename);
-          return fs.statAsync(archivePath)
-            .then(stats => transferArchiveFile(archivePath, downloadPath, mod, stats.size))
-            .tap(() => importedArchives.push(mod))
-            .catch(err => {
-                trace.log('error', 'Failed to import mod archive',
-                          archivePath + ' - ' + err.message);
-                errors.push(mod.modFilename);
-            });
+      const sizes: { [modFilename: string]: number } = {};
+      return enhanced
+        .tap(modsEx => Promise.map(modsEx, mod =>
+          fs.statAsync(path.join(mod.archivePath, mod.modFilename))
+            .then(stats => { sizes[mod.modFilename] = stats.size; })
+            // may have been moved in an earlier attempt
+            .catch(() => { sizes[mod.modFilename] = 0; })))
+        .then(modsEx => {
+          const totalBytes = Object.keys(sizes).reduce((total, key) => total + sizes[key], 0);
+          const progress = new TransferProgress(totalBytes, modsEx.length, progressCB);
+          return Promise.map(modsEx, mod => {
+            trace.log('info', 'transferring', undefined, { mod: mod.modFilename });
+            progress.start(mod.modFilename, mod.modName, sizes[mod.modFilename]);
+            const archivePath = path.join(mod.archivePath, mod.modFilename);
+            const result: IModImportResult = {
+              modFilename: mod.modFilename,
+              modName: mod.modName,
+              status: 'imported',
+              phase: 'transfer',
+              bytes: sizes[mod.modFilename],
+            };
+            return transferArchiveFile(archivePath, downloadPath, mod, progress, result)
+              .then(() => {
+                result.archiveId = mod.archiveId;
+                importedArchives.push(mod);
+              })
+              .catch(err => {
+                  trace.log('error', 'Failed to import mod archive',
+                            archivePath + ' - ' + err.message,
+                            { mod: mod.modFilename, code: err.code });
+                  result.status = 'failed';
+                  result.error = err.message;
+                  result.code = err.code;
+              })
+              .finally(() => progress.finish(mod.modFilename))
+              .then(() => result);
+          }, { concurrency });
         })
-        .then(() => {
+        .tap(() => {
           trace.log('info', 'Finished transferring mod archives');
           if (importedArchives.length > 0) {
             addMetaData(gameId, importedArchives, api);
             api.events.emit('did-import-downloads', importedArchives.map(arch => arch.archiveId));
           }
-        }));
-    })
-    .then(() => {
-      trace.finish();
-      return errors;
+        });
     });
 }
 
@@ -0,0 +1,340 @@
+import { IFinishOptions, IImportResult, IModImportResult, IRetryOptions,
+         IRunImportOptions } from '../types/importApi';
+import { InstallerChoicesMap } from '../types/installerChoices';
+import { IModEntry, ModsMap, ParseError, ProgressCB,
+         UnsupportedVersionError } from '../types/nmmEntries';
+import { getCategories } from './categories';
+import { findConflictRules } from './conflicts';
+import { buildDuplicateIndex } from './duplicates';
+import findInstances from './findInstances';
+import HashCache from './HashCache';
+import importArchives from './import';
+import ImportJournal from './ImportJournal';
+import { restoreInstallerChoices } from './installerChoices';
+import { applyLoadOrder } from './loadOrder';
+import { sourceFromFolder } from './manualSource';
+import parseNMMConfigFile, { parseInstallLogEntries } from './nmmVirtualConfigParser';
+import TraceImport from './TraceImport';
+import { importUnmanagedFiles } from './unmanagedFiles';
+import { generateModEntries, getCategoriesFilePath, getVirtualConfigFilePath,
+         testAccess } from './util';
+import { addConflictRules, importProfiles } from './vortexImports';
+import { findWinePrefixes } from './winePrefixes';
+
+import Promise from 'bluebird';
+import { log, types, util } from 'vortex-api';
+
+/**
+ * find the NMM instances managing the game, including those in wine prefixes
+ * and the folder the user picked manually in an earlier import
+ */
+export function findNMMInstances(api: types.IExtensionApi, gameId: string): Promise<string[][]> {
+  const state = api.getState();
+  const winePrefixes = util.getSafe(state, ['settings', 'modimport', 'winePrefixes'], []);
+  const manualFolder = util.getSafe(state,
+    ['settings', 'modimport', 'manualFolders', gameId], undefined);
+
+  return findWinePrefixes(winePrefixes)
+    .then(prefixes => findInstances(gameId, prefixes))
+    .then(found => (manualFolder === undefined)
+      ? found
+      : sourceFromFolder(manualFolder)
+        .then(manual => addSource(found, manual))
+        .catch(err => {
+          log('info', 'Folder picked in an earlier import no longer usable', err.message);
+          return found;
+        }));
+}
+
+/**
+ * put the source first unless it's in the list already
+ */
+export function addSource(sources: string[][], source: string[]): string[][] {
+  const existing = sources.find(iter => iter[0].toUpperCase() === source[0].toUpperCase());
+  return (existing !== undefined)
+    ? sources
+    : [source, ...sources];
+}
+
+/**
+ * build the entries for the mod archives of an NMM instance
+ */
+export function getModEntries(api: types.IExtensionApi,
+                              gameId: string,
+                              source: string[],
+                              hashes: HashCache = new HashCache(),
+                              cb: ProgressCB = () => undefined): Promise<ModsMap> {
+  const duplicates = buildDuplicateIndex(api.getState(), gameId);
+  return Promise.resolve(testAccess(api.translate, source[2]))
+    .then(() => parseNMMConfigFile(getVirtualConfigFilePath(source[0]), duplicates, hashes,
+                                   source[2]))
+    .catch(err => ((err instanceof ParseError) && !(err instanceof UnsupportedVersionError))
+      // NMM versions without virtual install only have the install log
+      ? parseInstallLogEntries(source[2], duplicates, hashes)
+        .catch(logErr => {
+          log('warn', 'Failed to read the NMM install log', logErr.message);
+          return [];
+        })
+      : Promise.reject(err))
+    .then((modEntries: IModEntry[]) => {
+      const parsedMods = modEntries.reduce((prev, value) => {
+        // modfilename appears to be the only field that we can rely on being set and it being
+        // unique
+        prev[value.modFilename] = value;
+        return prev;
+      }, {});
+      return generateModEntries(api, source, parsedMods, hashes, cb);
+    })
+    .finally(() => hashes.save());
+}
+
+function openJournal(sessionPath: string, resume: boolean): Promise<ImportJournal> {
+  const journal = resume
+    ? ImportJournal.read(sessionPath).then(state => new ImportJournal(sessionPath, state))
+    : Promise.resolve(new ImportJournal(sessionPath));
+  return journal.tap(iter => iter.open());
+}
+
+/**
+ * import the selected mods of an NMM instance into Vortex. The archives end up
+ * as downloads, they get installed by finishImport
+ */
+export function runImport(api: types.IExtensionApi,
+                          gameId: string,
+                          options: IRunImportOptions): Promise<IImportResult> {
+  const { source, mods, loadOrder, resumeSession } = options;
+  const modsPath = source[2];
+
+  const trace = new TraceImport(resumeSession);
+  const result: IImportResult = {
+    gameId,
+    sessionPath: trace.sessionPath,
+    logFilePath: trace.logFilePath,
+    results: {},
+    imported: [],
+    failed: [],
+    installerChoices: {},
+    unmappedChoices: [],
+    unmanagedMods: [],
+  };
+
+  return trace.initDirectory(source[0])
+    .then(() => openJournal(trace.sessionPath, resumeSession !== undefined))
+    .then(journal => getCategories(getCategoriesFilePath(modsPath))
+      // The categories.xml file seems to be created by NMM inside its defined "modFolder"
+      //  and not inside the virtual folder.
+      .catch(err => {
+        // Do not stop the import process just because we can't import categories.
+        trace.log('error', 'Failed to import categories from NMM', err);
+        return Promise.resolve({});
+      })
+      // a resumed session already has the load order stored
+      .tap(() => journal.isResumed
+        ? Promise.resolve()
+        : trace.writeFile('loadorder.json', JSON.stringify(loadOrder || []))
+          .catch(err => {
+            trace.log('error', 'Failed to store NMM plugin load order', err);
+          }))
+      .then(categories => {
+        // the selection of an interrupted import is stored with its plan
+        const plan = journal.isResumed
+          ? journal.state.plan
+          : { mods, loadOrder, unmanagedFiles: options.unmanagedFiles || [] };
+        const selected = plan.mods;
+        trace.log('info', 'Importing (count): ' + selected.length);
+        api.events.emit('enable-download-watch', false);
+
+        trace.setPhase('installer');
+        return restoreInstallerChoices(modsPath, selected, trace)
+          .then(restored => {
+            result.installerChoices = restored.choices;
+            result.unmappedChoices = restored.unmapped;
+            trace.setPhase('transfer');
+          })
+          .then(() => importArchives(api, gameId, trace, journal, source, selected, categories,
+            { strategy: options.strategy || 'copy', concurrency: options.concurrency || 1,
+              categoryMapping: options.categoryMapping, loadOrder: plan.loadOrder,
+              unmanagedFiles: plan.unmanagedFiles },
+            options.onProgress || (() => undefined)))
+          .then(modResults => applyResults(result, selected, modResults))
+          // after the archives so the files are part of the plan if the import gets
+          //  interrupted
+          .tap(() => trace.setPhase('unmanaged'))
+          .then(() => importUnmanagedFiles(api, gameId, plan.unmanagedFiles || [], trace,
+                                           journal))
+          .then(created => {
+            result.unmanagedMods = created;
+            journal.finish();
+          })
+          .finally(() => {
+            api.events.emit('enable-download-watch', true);
+          });
+      }))
+    // finishImport continues the trace on its own
+    .finally(() => trace.finish())
+    .then(() => (options.finish !== undefined)
+      ? finishImport(api, result, options.finish)
+      : Promise.resolve())
+    .then(() => result);
+}
+
+function applyResults(result: IImportResult, mods: IModEntry[], modResults: IModImportResult[]) {
+  modResults.forEach(modResult => {
+    result.results[modResult.modFilename] = modResult;
+  });
+  const succeeded = (mod: IModEntry) => (result.results[mod.modFilename] !== undefined)
+    && (result.results[mod.modFilename].status === 'imported');
+  result.imported = [
+    ...result.imported.filter(mod => mods.find(iter =>
+      iter.modFilename === mod.modFilename) === undefined),
+    ...mods.filter(succeeded),
+  ];
+  result.failed = Object.keys(result.results)
+    .filter(key => result.results[key].status === 'failed');
+}
+
+/**
+ * import the archives that failed in an earlier run again, the session and its
+ * trace are continued
+ */
+export function retryFailed(api: types.IExtensionApi,
+                            result: IImportResult,
+                            options: IRetryOptions = {}): Promise<IImportResult> {
+  if (result.failed.length === 0) {
+    return Promise.resolve(result);
+  }
+
+  const retried: IImportResult = {
+    ...result,
+    results: { ...result.results },
+    installerChoices: { ...result.installerChoices },
+  };
+  let trace: TraceImport;
+  return ImportJournal.read(result.sessionPath)
+    .then(state => {
+      if (state.plan === undefined) {
+        return Promise.reject(new Error('The import session has no archives to retry'));
+      }
+      const { source } = state.plan;
+      const mods = state.plan.mods.filter(mod => result.failed.indexOf(mod.modFilename) !== -1);
+      const journal = new ImportJournal(result.sessionPath, state);
+      trace = new TraceImport(result.sessionPath);
+      return trace.initDirectory(source[0])
+        .then(() => journal.open())
+        .then(() => {
+          trace.log('info', 'Retrying failed (count): ' + mods.length);
+          trace.setPhase('installer');
+          return restoreInstallerChoices(source[2], mods, trace);
+        })
+        .then(restored => {
+          Object.assign(retried.installerChoices, restored.choices);
+          retried.unmappedChoices = Array.from(new Set([
+            ...result.unmappedChoices.filter(name => restored.choices[name] === undefined),
+            ...restored.unmapped,
+          ]));
+          trace.setPhase('transfer');
+          api.events.emit('enable-download-watch', false);
+          return importArchives(api, result.gameId, trace, journal, source, mods, {},
+            { strategy: options.strategy || state.plan.strategy,
+              concurrency: options.concurrency || 1 },
+            options.onProgress || (() => undefined))
+            .finally(() => {
+              api.events.emit('enable-download-watch', true);
+            });
+        })
+        .then(modResults => applyResults(retried, mods, modResults))
+        // the session was finished before already
+        .finally(() => journal.close());
+    })
+    .finally(() => {
+      if (trace !== undefined) {
+        trace.finish();
+      }
+    })
+    .then(() => retried);
+}
+
+function installMods(api: types.IExtensionApi, modEntries: IModEntry[],
+                     installerChoices: InstallerChoicesMap): Promise<string[]> {
+  const state = api.getState();
+  const downloads = util.getSafe(state, ['persistent', 'downloads', 'files'], undefined);
+  if (downloads === undefined) {
+    // We clearly didn't manage to import anything.
+    return Promise.reject(new Error('persistent.downloads.files is empty!'));
+  }
+
+  const archiveIds = Object.keys(downloads).filter(key =>
+    modEntries.find(mod => mod.modFilename === downloads[key].localPath) !== undefined);
+  // one at a time, installers asking questions would otherwise pile up on top of each other
+  return Promise.map(archiveIds, archiveId => new Promise<string>(resolve => {
+    const choices = installerChoices[downloads[archiveId].localPath];
+    api.events.emit('start-install-download', archiveId, (choices !== undefined)
+      ? { allowAutoEnable: true, choices }
+      : true, (err: Error, modId: string) => resolve(err ? undefined : modId));
+  }), { concurrency: 1 })
+    .then(modIds => modIds.filter(modId => modId !== undefined));
+}
+
+/**
+ * install the imported archives and recreate what NMM knew about the mods:
+ * conflict resolutions, plugin load order and profiles
+ */
+export function finishImport(api: types.IExtensionApi,
+                             result: IImportResult,
+                             options: IFinishOptions): Promise<void> {
+  const { gameId, imported, installerChoices } = result;
+
+  // If we did not succeed in importing anything, there's no point in
+  //  enabling anything.
+  if (imported.length === 0) {
+    return Promise.resolve();
+  }
+
+  const trace = new TraceImport(result.sessionPath);
+  // everything recreated here gets journaled so the import can be undone
+  let journal: ImportJournal;
+  return trace.open()
+    .then(() => openJournal(result.sessionPath, true))
+    .then(journalIn => {
+      journal = journalIn;
+      trace.setPhase('finish');
+      const installed = options.install
+        ? installMods(api, imported, installerChoices)
+        : Promise.resolve([]);
+      return installed
+        .catch(err => {
+          trace.log('warn', 'Not all imported mods were installed', err);
+          return [];
+        });
+    })
+    // The plugins only become available and the mods can only be enabled
+    //  once they are installed.
+    .then((modIds: string[]) => {
+      trace.log('info', 'Installed (count): ' + modIds.length);
+      if (modIds.length === 0) {
+        trace.log('info', 'No imported mods installed, NMM conflict resolutions and profiles '
+                          + 'not carried over');
+        return;
+      }
+      const rules = findConflictRules(imported);
+      trace.log('info', 'Adding conflict rules (count): ' + rules.length);
+      addConflictRules(gameId, imported, rules, api)
+        .forEach(rule => journal.ruleAdded(rule));
+      if (options.loadOrder !== undefined) {
+        const mode = options.loadOrderMode || 'rules';
+        trace.log('info', 'Restoring plugin load order', mode);
+        journal.loadOrderApplied(mode, applyLoadOrder(api, options.loadOrder, mode));
+      }
+      if ((options.profiles !== undefined) && (options.profiles.length > 0)) {
+        trace.log('info', 'Recreating NMM profiles (count): ' + options.profiles.length);
+        importProfiles(gameId, options.profiles, options.activeProfile, api)
+          .forEach(profileId => journal.profileCreated(profileId));
+      }
+    })
+    .finally(() => {
+      if (journal !== undefined) {
+        journal.close();
+      }
+      trace.finish();
+    });
+}
@@ -0,0 +1,157 @@
+import { CategoryMappingMap } from '../types/categoryMapping';
+import { IImportPlan, IPlanEntry, PlanFormat } from '../types/importPlan';
+import { IModEntry } from '../types/nmmEntries';
+import { TransferStrategy } from '../types/transferTypes';
+import { getCategories } from './categories';
+import { findVortexCategory } from './categoryMapping';
+import { getModCategory } from './import';
+import { calculateArchiveSize, getCategoriesFilePath } from './util';
+
+import Promise from 'bluebird';
+import * as path from 'path';
+import { fs, selectors, types, util } from 'vortex-api';
+
+const COLUMNS: Array<{ key: keyof IPlanEntry, title: string }> = [
+  { key: 'modFilename', title: 'Archive' },
+  { key: 'modName', title: 'Name' },
+  { key: 'import', title: 'Import' },
+  { key: 'duplicateReason', title: 'Duplicate' },
+  { key: 'archiveSize', title: 'Size' },
+  { key: 'category', title: 'Category' },
+  { key: 'newCategory', title: 'New Category' },
+  { key: 'nexusModId', title: 'Nexus Mod Id' },
+  { key: 'nexusFileId', title: 'Nexus File Id' },
+  { key: 'targetPath', title: 'Target' },
+];
+
+/**
+ * work out what importing the mods would do, without changing anything. Categories are
+ * resolved the same way the import does, using the category mapping
+ */
+export function buildImportPlan(api: types.IExtensionApi,
+                                gameId: string,
+                                source: string[],
+                                mods: IModEntry[],
+                                isEnabled: (mod: IModEntry) => boolean,
+                                strategy: TransferStrategy,
+                                categoryMapping: CategoryMappingMap): Promise<IImportPlan> {
+  const state: types.IState = api.getState();
+  const modsPath = source[2];
+  const downloadPath = selectors.downloadPathForGame(state, gameId);
+  const vortexCategories = util.getSafe(state, ['persistent', 'categories', gameId], {});
+
+  return getCategories(getCategoriesFilePath(modsPath))
+    .catch(() => ({}))
+    .then(nmmCategories => Promise.map(mods, mod =>
+      Promise.all([
+        getModCategory(modsPath, mod, nmmCategories, vortexCategories),
+        Promise.resolve(calculateArchiveSize(mod)).catch(() => 0),
+      ])
+      .then(([category, archiveSize]): IPlanEntry => {
+        const target = (category !== undefined)
+          ? findVortexCategory(category, categoryMapping, vortexCategories)
+          : undefined;
+        return {
+          modFilename: mod.modFilename,
+          modName: mod.modName,
+          import: isEnabled(mod),
+          duplicateReason: mod.duplicateReason,
+          archiveSize,
+          category: (target !== undefined) ? target.name : undefined,
+          newCategory: (target !== undefined) && (target.id === undefined),
+          nexusModId: mod.nexusId || undefined,
+          nexusFileId: mod.downloadId || undefined,
+          targetPath: path.join(downloadPath, mod.modFilename),
+        };
+      })))
+    .then(entries => ({
+      gameId,
+      source: modsPath,
+      strategy,
+      created: Date.now(),
+      entries,
+    }));
+}
+
+function csvField(value: any): string {
+  const text = (value === undefined) ? '' : value.toString();
+  return /[",\r\n]/.test(text)
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+}
+
+function escapeHTML(value: any): string {
+  return ((value === undefined) ? '' : value.toString())
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function planToCSV(plan: IImportPlan): string {
+  const lines = [COLUMNS.map(col => csvField(col.title)).join(',')]
+    .concat(plan.entries.map(entry => COLUMNS.map(col => csvField(entry[col.key])).join(',')));
+  return lines.join('\r\n') + '\r\n';
+}
+
+export function planToHTML(plan: IImportPlan): string {
+  const importCount = plan.entries.filter(entry => entry.import).length;
+  const totalSize = plan.entries
+    .filter(entry => entry.import)
+    .reduce((prev, entry) => prev + entry.archiveSize, 0);
+  const summary = `Importing ${importCount} of ${plan.entries.length} archives `
+    + `(${util.bytesToString(totalSize)})`;
+
+  const rows = plan.entries.map(entry => '<tr' + (entry.import ? '' : ' class="skip"') + '>'
+    + COLUMNS.map(col => (col.key === 'archiveSize')
+      ? `<td>${escapeHTML(util.bytesToString(entry.archiveSize))}</td>`
+      : `<td>${escapeHTML(entry[col.key])}</td>`).join('')
+    + '</tr>');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>NMM import plan - ${escapeHTML(plan.gameId)}</title>
+<style>
+body { font-family: sans-serif; font-size: 13px; }
+table { border-collapse: collapse; }
+th, td { border: 1px solid #ccc; padding: 2px 6px; text-align: left; }
+th { background: #eee; }
+tr.skip { color: #999; }
+</style>
+</head>
+<body>
+<h1>NMM import plan</h1>
+<p>Game: ${escapeHTML(plan.gameId)}<br>
+Source: ${escapeHTML(plan.source)}<br>
+Transfer: ${escapeHTML(plan.strategy)}<br>
+Created: ${escapeHTML(new Date(plan.created).toLocaleString())}<br>
+${escapeHTML(summary)}</p>
+<table>
+<tr>${COLUMNS.map(col => `<th>${escapeHTML(col.title)}</th>`).join('')}</tr>
+${rows.join('\n')}
+</table>
+</body>
+</html>
+`;
+}
+
+export function formatPlan(plan: IImportPlan, format: PlanFormat): string {
+  switch (format) {
+    case 'csv': return planToCSV(plan);
+    case 'html': return planToHTML(plan);
+    default: return JSON.stringify(plan, undefined, 2);
+  }
+}
+
+/**
+ * write the plan to disk, the format is determined by the file extension
+ */
+export function exportPlan(plan: IImportPlan, filePath: string): Promise<void> {
+  const ext = path.extname(filePath).toLowerCase();
+  const format: PlanFormat = (ext === '.csv')
+    ? 'csv'
+    : ((ext === '.html') || (ext === '.htm')) ? 'html' : 'json';
+  return fs.writeFileAsync(filePath, formatPlan(plan, format), { encoding: 'utf-8' });
+}
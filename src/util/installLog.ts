@@ -0,0 +1,142 @@
+import { IInstallLog } from '../types/installLog';
+
+import Promise from 'bluebird';
+import * as path from 'path';
+import { fs } from 'vortex-api';
+
+// NMM adds this placeholder entry to hold the original values of edited ini files.
+const ORIGINAL_VALUES_KEY = 'Dummy Mod: ORIGINAL_VALUES';
+
+export function getInstallLogFilePath(modsPath: string): string {
+  return path.join(modsPath, 'Install Info', 'InstallLog.xml');
+}
+
+export function normalizeDataPath(input: string): string {
+  return input.replace(/[\\/]+/g, '/').replace(/^\/|\/$/g, '').toLowerCase();
+}
+
+function makeDate(year: number, month: number, day: number,
+                  hours: number, minutes: number, seconds: number): Date {
+  const result = new Date(year, month - 1, day, hours, minutes, seconds);
+  // Date quietly rolls over out-of-range values (e.g. month 13)
+  return ((result.getFullYear() === year) && (result.getMonth() === month - 1)
+          && (result.getDate() === day) && (result.getHours() === hours)
+          && (result.getMinutes() === minutes) && (result.getSeconds() === seconds))
+    ? result
+    : undefined;
+}
+
+/**
+ * NMM writes the install date in the format of the user's locale, e.g.
+ * "19.10.2018 14:00:00", "10/19/2018 2:00:00 PM", "19/10/2018 14:00:00" or
+ * "2018-10-19 14:00:00". Times are local.
+ * Returns undefined if the date can't be read with certainty
+ */
+export function parseInstallDate(input: string): Date {
+  const match = (input || '').trim().match(
+    /^(\d{1,4})([./-])(\d{1,2})\2(\d{1,4})[ T]+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AaPp][Mm])?$/);
+  if (match === null) {
+    return undefined;
+  }
+  const [first, separator, second, third] = [+match[1], match[2], +match[3], +match[4]];
+  let hours = +match[5];
+  const minutes = +match[6];
+  const seconds = (match[7] !== undefined) ? +match[7] : 0;
+  const meridiem = (match[8] !== undefined) ? match[8].toUpperCase() : undefined;
+  if (meridiem !== undefined) {
+    if ((hours < 1) || (hours > 12)) {
+      return undefined;
+    }
+    hours = (hours % 12) + ((meridiem === 'PM') ? 12 : 0);
+  }
+
+  if (match[1].length === 4) {
+    // year first, always followed by month and day
+    return makeDate(first, second, third, hours, minutes, seconds);
+  } else if (match[4].length !== 4) {
+    return undefined;
+  }
+
+  let dayFirst: boolean;
+  if (first > 12) {
+    dayFirst = true;
+  } else if (second > 12) {
+    dayFirst = false;
+  } else if (separator === '/') {
+    // slashes with AM/PM is the US format (month first), everyone else puts the day first
+    dayFirst = (meridiem === undefined);
+  } else {
+    // dots and dashes are only used with the day first
+    dayFirst = true;
+  }
+
+  if (!dayFirst && (separator !== '/')) {
+    return undefined;
+  }
+
+  return dayFirst
+    ? makeDate(third, second, first, hours, minutes, seconds)
+    : makeDate(third, first, second, hours, minutes, seconds);
+}
+
+function getText(ele: Element, tagName: string): string {
+  const item = ele.getElementsByTagName(tagName)[0];
+  return (item !== undefined) ? item.textContent : undefined;
+}
+
+export function parseInstallLog(xmlData: string): IInstallLog {
+  const parser = new DOMParser();
+  const xmlDoc = parser.parseFromString(xmlData, 'text/xml');
+
+  const result: IInstallLog = { mods: {}, files: {}, owners: {} };
+
+  const modList = xmlDoc.querySelectorAll('installLog > modList > mod');
+  Array.from(modList).forEach(mod => {
+    const modPath = mod.getAttribute('path');
+    if ((modPath === null) || (modPath === ORIGINAL_VALUES_KEY)) {
+      return;
+    }
+    const archiveName = path.win32.basename(modPath);
+    result.mods[archiveName.toLowerCase()] = {
+      key: mod.getAttribute('key'),
+      archiveName,
+      name: getText(mod, 'name'),
+      version: getText(mod, 'version'),
+      installDate: getText(mod, 'installDate'),
+    };
+  });
+
+  const dataFiles = xmlDoc.querySelectorAll('installLog > dataFiles > file');
+  Array.from(dataFiles).forEach(file => {
+    const filePath = normalizeDataPath(file.getAttribute('path') || '');
+    const installers = file.querySelectorAll('installingMods > mod');
+    Array.from(installers).forEach(installer => {
+      const key = installer.getAttribute('key');
+      if (result.files[key] === undefined) {
+        result.files[key] = [];
+      }
+      result.files[key].push(filePath);
+      // installers are listed in the order they were installed in
+      result.owners[filePath] = key;
+    });
+  });
+
+  return result;
+}
+
+/**
+ * read the install log NMM keeps inside its mods folder.
+ * Resolves to undefined if there is no install log.
+ */
+export function readInstallLog(modsPath: string): Promise<IInstallLog> {
+  return fs.readFileAsync(getInstallLogFilePath(modsPath))
+    .then((data: Buffer) => {
+      if (data.compare(Buffer.from([0xEF, 0xBB, 0xBF]), 0, 3, 0, 3) === 0) {
+        data = data.slice(3);
+      }
+      return parseInstallLog(data.toString('utf-8'));
+    })
+    .catch(err => (err.code === 'ENOENT')
+      ? Promise.resolve(undefined)
+      : Promise.reject(err));
+}
@@ -0,0 +1,270 @@
+import { IInstallLog } from '../types/installLog';
+import { IChoice, IChoiceGroup, IChoiceStep, IInstallerChoices,
+         InstallerChoicesMap } from '../types/installerChoices';
+import { IModEntry } from '../types/nmmEntries';
+import { normalizeDataPath, readInstallLog } from './installLog';
+import TraceImport from './TraceImport';
+import { getCachedFomodPath } from './util';
+
+import Promise from 'bluebird';
+import * as path from 'path';
+import { fs } from 'vortex-api';
+
+export interface IRestoredChoices {
+  choices: InstallerChoicesMap;
+  // file names of the mods that have a fomod installer but for which we
+  //  were unable to reconstruct the options picked in NMM
+  unmapped: string[];
+}
+
+interface IPluginMatch {
+  name: string;
+  idx: number;
+  // number of file/folder entries we can verify against the install log
+  decidable: number;
+  matched: number;
+  // plugin contains folder entries installed to the data root, we can't
+  //  tell whether these got installed without looking inside the archive
+  undecidable: boolean;
+}
+
+class ChoiceMappingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChoiceMappingError';
+  }
+}
+
+function decodeXML(data: Buffer): string {
+  if ((data[0] === 0xFF) && (data[1] === 0xFE)) {
+    return data.slice(2).toString('utf16le');
+  } else if ((data[0] === 0xEF) && (data[1] === 0xBB) && (data[2] === 0xBF)) {
+    return data.slice(3).toString('utf-8');
+  }
+  return data.toString('utf-8');
+}
+
+function childElements(ele: Element, tagName: string): Element[] {
+  if ((ele === undefined) || (ele === null)) {
+    return [];
+  }
+  return Array.from(ele.children).filter(child => child.tagName === tagName);
+}
+
+function firstChild(ele: Element, tagName: string): Element {
+  return childElements(ele, tagName)[0];
+}
+
+// fomod lists are sorted alphabetically unless they are explicitly ordered,
+//  the installer identifies choices by their index in the sorted list
+function sortedByOrder(list: Element, tagName: string): Element[] {
+  const items = childElements(list, tagName);
+  const order = (list !== undefined) ? list.getAttribute('order') : null;
+  if (order === 'Explicit') {
+    return items;
+  }
+  const sorted = items.slice().sort((lhs, rhs) =>
+    (lhs.getAttribute('name') || '').localeCompare(rhs.getAttribute('name') || ''));
+  return (order === 'Descending') ? sorted.reverse() : sorted;
+}
+
+function matchPlugin(plugin: Element, idx: number, installed: Set<string>): IPluginMatch {
+  const res: IPluginMatch = {
+    name: plugin.getAttribute('name'),
+    idx,
+    decidable: 0,
+    matched: 0,
+    undecidable: false,
+  };
+
+  const files = firstChild(plugin, 'files');
+  if (files === undefined) {
+    return res;
+  }
+
+  const installedList = Array.from(installed);
+  Array.from(files.children).forEach(entry => {
+    const source = entry.getAttribute('source') || '';
+    const destAttr = entry.getAttribute('destination');
+    if (entry.tagName === 'file') {
+      const dest = ((destAttr === null) || (destAttr === ''))
+        ? ((destAttr === null) ? source : path.win32.basename(source))
+        : destAttr;
+      ++res.decidable;
+      if (installed.has(normalizeDataPath(dest))) {
+        ++res.matched;
+      }
+    } else if (entry.tagName === 'folder') {
+      const dest = normalizeDataPath((destAttr === null) ? source : destAttr);
+      if (dest.length === 0) {
+        res.undecidable = true;
+      } else {
+        ++res.decidable;
+        if (installedList.find(filePath => filePath.startsWith(dest + '/')) !== undefined) {
+          ++res.matched;
+        }
+      }
+    }
+  });
+
+  return res;
+}
+
+function pickOne(matches: IPluginMatch[], required: boolean): IPluginMatch[] {
+  const selected = matches.filter(match => match.matched > 0);
+  if (selected.length === 1) {
+    return selected;
+  } else if (selected.length > 1) {
+    // options may share files, go with the one that explains the most files
+    const sorted = selected.slice().sort((lhs, rhs) => rhs.matched - lhs.matched);
+    if (sorted[0].matched === sorted[1].matched) {
+      throw new ChoiceMappingError('ambiguous selection');
+    }
+    return [sorted[0]];
+  }
+
+  const unknown = matches.filter(match => match.undecidable);
+  const empty = matches.filter(match => (match.decidable === 0) && !match.undecidable);
+  if (!required && (unknown.length === 0)) {
+    return [];
+  }
+  if ((unknown.length + empty.length) === 1) {
+    return [...unknown, ...empty];
+  }
+  throw new ChoiceMappingError('no option matches the installed files');
+}
+
+function mapGroup(group: Element, installed: Set<string>): IChoiceGroup {
+  const plugins = sortedByOrder(firstChild(group, 'plugins'), 'plugin');
+  const matches = plugins.map((plugin, idx) => matchPlugin(plugin, idx, installed));
+
+  if (matches.find(match => (match.matched > 0) && (match.matched < match.decidable))) {
+    throw new ChoiceMappingError('partially installed option');
+  }
+
+  let selected: IPluginMatch[];
+  switch (group.getAttribute('type')) {
+    case 'SelectAll': selected = matches; break;
+    case 'SelectExactlyOne': selected = pickOne(matches, true); break;
+    case 'SelectAtMostOne': selected = pickOne(matches, false); break;
+    case 'SelectAtLeastOne': {
+      selected = matches.filter(match => match.matched > 0);
+      if (selected.length === 0) {
+        selected = pickOne(matches, true);
+      }
+      break;
+    }
+    default: {
+      if (matches.find(match => match.undecidable) !== undefined) {
+        throw new ChoiceMappingError('option contents can\'t be verified');
+      }
+      selected = matches.filter(match => match.matched > 0);
+    }
+  }
+
+  return {
+    name: group.getAttribute('name'),
+    choices: selected.map((match): IChoice => ({ name: match.name, idx: match.idx })),
+  };
+}
+
+function mapStep(step: Element, installed: Set<string>): IChoiceStep {
+  const groups = sortedByOrder(firstChild(step, 'optionalFileGroups'), 'group');
+  try {
+    return {
+      name: step.getAttribute('name'),
+      groups: groups.map(group => mapGroup(group, installed)),
+    };
+  } catch (err) {
+    // Steps with a visibility condition may not have been displayed at all,
+    //  in which case there is nothing to restore.
+    const hasVisibility = firstChild(step, 'visible') !== undefined;
+    const unused = groups.every(group =>
+      childElements(firstChild(group, 'plugins'), 'plugin')
+        .every(plugin => matchPlugin(plugin, 0, installed).matched === 0));
+    if (hasVisibility && unused) {
+      return undefined;
+    }
+    throw err;
+  }
+}
+
+/**
+ * reconstruct the fomod options the user picked based on the
+ * files NMM recorded as installed for that mod
+ */
+export function mapInstallerChoices(moduleConfig: string,
+                                    installedFiles: string[]): IInstallerChoices {
+  const parser = new DOMParser();
+  const xmlDoc = parser.parseFromString(moduleConfig, 'text/xml');
+  const config = xmlDoc.getElementsByTagName('config')[0];
+  if (config === undefined) {
+    throw new ChoiceMappingError('invalid ModuleConfig.xml');
+  }
+
+  const installed = new Set<string>(installedFiles);
+  const steps = sortedByOrder(firstChild(config, 'installSteps'), 'installStep');
+  return {
+    type: 'fomod',
+    options: steps
+      .map(step => mapStep(step, installed))
+      .filter(step => step !== undefined),
+  };
+}
+
+function restoreModChoices(modsPath: string,
+                           mod: IModEntry,
+                           installLog: IInstallLog,
+                           trace: TraceImport): Promise<IInstallerChoices> {
+  return Promise.resolve(getCachedFomodPath(modsPath, mod.modFilename))
+    .then(fomodPath => {
+      if (fomodPath === undefined) {
+        // we can't tell whether the archive has an installer, so assume it does
+        trace.log('warn', 'Malformed cacheInfo.txt in the NMM cache', undefined,
+                  { mod: mod.modFilename });
+        return Promise.reject(new ChoiceMappingError('installer not found in the NMM cache'));
+      }
+      return fs.readFileAsync(path.join(fomodPath, 'ModuleConfig.xml'));
+    })
+    .catch(err => (err.code === 'ENOENT')
+      // Not a fomod installer (or NMM never cached it), nothing to restore.
+      ? Promise.resolve(undefined)
+      : Promise.reject(err))
+    .then((data: Buffer) => {
+      if (data === undefined) {
+        return Promise.resolve(undefined);
+      }
+      const logEntry = (installLog !== undefined)
+        ? installLog.mods[mod.modFilename.toLowerCase()]
+        : undefined;
+      if (logEntry === undefined) {
+        return Promise.reject(new ChoiceMappingError('mod not found in the install log'));
+      }
+      return Promise.resolve(
+        mapInstallerChoices(decodeXML(data), installLog.files[logEntry.key] || []));
+    });
+}
+
+export function restoreInstallerChoices(modsPath: string,
+                                        mods: IModEntry[],
+                                        trace: TraceImport): Promise<IRestoredChoices> {
+  const result: IRestoredChoices = { choices: {}, unmapped: [] };
+  return readInstallLog(modsPath)
+    .catch(err => {
+      trace.log('error', 'Failed to read NMM install log', err.message, { code: err.code });
+      return Promise.resolve(undefined);
+    })
+    .then(installLog => Promise.mapSeries(mods, mod =>
+      restoreModChoices(modsPath, mod, installLog, trace)
+        .then(choices => {
+          if (choices !== undefined) {
+            result.choices[mod.modFilename] = choices;
+          }
+        })
+        .catch(err => {
+          trace.log('warn', 'Unable to restore installer choices', err.message,
+                    { mod: mod.modFilename, code: err.code });
+          result.unmapped.push(mod.modFilename);
+        })))
+    .then(() => result);
+}
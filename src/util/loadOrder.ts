@@ -0,0 +1,113 @@
+import { ILoadOrderEntry, LoadOrderMode } from '../types/loadOrder';
+import { getGameSupport } from './gameSupport';
+
+import Promise from 'bluebird';
+import * as path from 'path';
+import { fs, types, util } from 'vortex-api';
+
+// Action types of the gamebryo plugin management extension. We can't import its
+//  action creators so we dispatch the raw actions instead.
+const SET_PLUGIN_ORDER = 'SET_PLUGIN_ORDER';
+const ADD_USERLIST_RULE = 'ADD_USERLIST_RULE';
+const REMOVE_USERLIST_RULE = 'REMOVE_USERLIST_RULE';
+
+export function supportsLoadOrder(gameId: string): boolean {
+  const game = getGameSupport(gameId);
+  return (game !== undefined) && (game.pluginFolder !== undefined);
+}
+
+function getPluginFolder(gameId: string): string {
+  return path.join(util.getVortexPath('localAppData'), getGameSupport(gameId).pluginFolder);
+}
+
+function readLines(filePath: string): Promise<string[]> {
+  return fs.readFileAsync(filePath)
+    .then((data: Buffer) => data.toString('utf-8')
+      .split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(line => (line.length > 0) && !line.startsWith('#')))
+    .catch(err => (err.code === 'ENOENT')
+      ? Promise.resolve([])
+      : Promise.reject(err));
+}
+
+/**
+ * parse the content of plugins.txt/loadorder.txt.
+ * Newer games mark active plugins with an asterisk and list every plugin in
+ * plugins.txt, older ones only list the active plugins in plugins.txt and
+ * keep the full order in loadorder.txt.
+ */
+export function parseLoadOrder(plugins: string[], loadOrder: string[]): ILoadOrderEntry[] {
+  const starred = plugins.find(line => line.startsWith('*')) !== undefined;
+  if (starred) {
+    return plugins.map(line => ({
+      name: line.replace(/^\*/, ''),
+      enabled: line.startsWith('*'),
+    }));
+  }
+
+  const active = new Set<string>(plugins.map(line => line.toLowerCase()));
+  const order = (loadOrder.length > 0) ? loadOrder : plugins;
+  return order.map(name => ({
+    name,
+    enabled: active.has(name.toLowerCase()),
+  }));
+}
+
+/**
+ * read the plugin load order NMM left behind for the specified game.
+ * Needs to happen before the user disables the mods in NMM, as that removes
+ * the plugins from plugins.txt
+ */
+export function readNMMLoadOrder(gameId: string): Promise<ILoadOrderEntry[]> {
+  if (!supportsLoadOrder(gameId)) {
+    return Promise.resolve([]);
+  }
+  const pluginFolder = getPluginFolder(gameId);
+  return Promise.all([
+    readLines(path.join(pluginFolder, 'plugins.txt')),
+    readLines(path.join(pluginFolder, 'loadorder.txt')),
+  ])
+    .then(([plugins, loadOrder]) => parseLoadOrder(plugins, loadOrder));
+}
+
+function userlistRules(plugins: string[]) {
+  return plugins.slice(1).map((name, idx) => ({
+    pluginId: name.toLowerCase(),
+    reference: plugins[idx].toLowerCase(),
+    type: 'after',
+  }));
+}
+
+/**
+ * apply the plugin load order, returns the (enabled) plugins that got ordered
+ */
+export function applyLoadOrder(api: types.IExtensionApi,
+                               loadOrder: ILoadOrderEntry[],
+                               mode: LoadOrderMode): string[] {
+  const enabled = loadOrder
+    .filter(entry => entry.enabled)
+    .map(entry => entry.name);
+
+  if (mode === 'order') {
+    api.store.dispatch({
+      type: SET_PLUGIN_ORDER,
+      payload: { pluginList: enabled, setEnabled: true },
+    });
+  } else {
+    // User rules survive LOOT sorting so this works with autosort enabled
+    userlistRules(enabled).forEach(payload => {
+      api.store.dispatch({ type: ADD_USERLIST_RULE, payload });
+    });
+  }
+  return enabled;
+}
+
+/**
+ * remove the user rules applyLoadOrder added in 'rules' mode
+ */
+export function removeLoadOrderRules(api: types.IExtensionApi, plugins: string[]) {
+  userlistRules(plugins).forEach(payload => {
+    api.store.dispatch({ type: REMOVE_USERLIST_RULE, payload });
+  });
+}
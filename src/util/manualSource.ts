@@ -0,0 +1,53 @@
+import { ParseError } from '../types/nmmEntries';
+import { getInstallLogFilePath } from './installLog';
+import { getCategoriesFilePath, getVirtualConfigFilePath } from './util';
+
+import Promise from 'bluebird';
+import * as path from 'path';
+import { fs, log } from 'vortex-api';
+
+function exists(filePath: string): Promise<boolean> {
+  return fs.statAsync(filePath)
+    .then(() => true)
+    .catch(() => false);
+}
+
+/**
+ * build a source the way findInstances would from a folder the user picked,
+ * either the NMM mods folder or the VirtualInstall folder inside it. Mods folders
+ * of NMM versions without virtual install are recognized by their install log
+ */
+export function sourceFromFolder(folderPath: string): Promise<string[]> {
+  const selected = path.resolve(folderPath);
+  // the VirtualInstall folder itself contains the config file
+  return exists(path.join(selected, 'VirtualModConfig.xml'))
+    .then(isVirtualFolder => {
+      const modsPath = isVirtualFolder ? path.dirname(selected) : selected;
+      return Promise.all([
+        exists(getVirtualConfigFilePath(modsPath)),
+        exists(getInstallLogFilePath(modsPath)),
+        exists(path.join(modsPath, 'cache')),
+        exists(getCategoriesFilePath(modsPath)),
+      ])
+      .then(([hasVirtualConfig, hasInstallLog, hasCache, hasCategories]) => {
+        const missing = [];
+        if (!hasVirtualConfig && !hasInstallLog) {
+          missing.push(path.join('VirtualInstall', 'VirtualModConfig.xml')
+            + ' (or ' + path.join('Install Info', 'InstallLog.xml') + ')');
+        }
+        if (!hasCache) {
+          missing.push('cache');
+        }
+        if (missing.length > 0) {
+          return Promise.reject(new ParseError(
+            `"${selected}" is not an NMM mods folder, it doesn't contain: ${missing.join(', ')}`));
+        }
+        if (!hasCategories) {
+          // NMM only writes it once categories are in use
+          log('info', 'NMM mods folder has no categories', modsPath);
+        }
+        return fs.statAsync(modsPath)
+          .then(stats => [modsPath, '', modsPath, stats.birthtimeMs.toString()]);
+      });
+    });
+}
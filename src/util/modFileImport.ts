@@ -1,15 +1,133 @@
+import { TransferStrategy } from '../types/transferTypes';
+import { fileChecksum } from './util';
+
 import Promise from 'bluebird';
+import * as nodeFs from 'fs';
 import * as path from 'path';
 import { fs, util } from 'vortex-api';
 
+function reflink(source: string, dest: string): Promise<void> {
+  // COPYFILE_FICLONE falls back to a regular copy if the file system
+  //  doesn't support copy-on-write
+  return new Promise((resolve, reject) => {
+    nodeFs.copyFile(source, dest, nodeFs.constants.COPYFILE_FICLONE,
+                    err => (err !== null) ? reject(err) : resolve());
+  });
+}
+
+function copy(source: string, dest: string, onProgress: (bytes: number) => void): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const input = fs.createReadStream(source);
+    const output = fs.createWriteStream(dest);
+    let transferred = 0;
+    input.on('data', (chunk: Buffer) => {
+      transferred += chunk.length;
+      onProgress(transferred);
+    });
+    // a failure on either side has to tear down both streams or the file
+    //  handles stay open
+    const onError = (err: Error) => {
+      input.destroy();
+      output.destroy();
+      reject(err);
+    };
+    input.on('error', onError);
+    output.on('error', onError);
+    output.on('finish', () => resolve());
+    input.pipe(output);
+  })
+  .catch(err => fs.removeAsync(dest)
+    // don't leave a truncated archive behind
+    .catch(() => undefined)
+    .then(() => Promise.reject(err)));
+}
+
 /**
- * copy or move a list of mod archives
- * @param {string} modArchive
+ * run the transfer and compare the hash of the result against the hash of the source,
+ * a damaged file is removed and transferred once more before giving up.
+ * Resolves to the md5 hash of the transferred file
+ */
+function verified(transfer: () => Promise<void>, dest: string,
+                  expectedMD5: string, attempts: number = 2): Promise<string> {
+  return transfer()
+    .then(() => fileChecksum(dest))
+    .then(md5 => {
+      if (!expectedMD5 || (md5 === expectedMD5)) {
+        return Promise.resolve(md5);
+      }
+      return fs.removeAsync(dest)
+        .then(() => (attempts > 1)
+          ? verified(transfer, dest, expectedMD5, attempts - 1)
+          : Promise.reject(new Error('checksum mismatch')));
+    });
+}
+
+function move(source: string, dest: string, expectedMD5: string,
+              onProgress: (bytes: number) => void): Promise<string> {
+  return fs.renameAsync(source, dest)
+    // renaming doesn't touch the content
+    .then(() => expectedMD5 || fileChecksum(dest))
+    .catch(err => (err.code === 'EXDEV')
+      // only remove the source once we know the copy is intact
+      ? verified(() => copy(source, dest, onProgress), dest, expectedMD5)
+        .tap(() => fs.removeAsync(source))
+      : Promise.reject(err));
+}
+
+function hardlink(source: string, dest: string, expectedMD5: string,
+                  onProgress: (bytes: number) => void): Promise<string> {
+  return fs.linkAsync(source, dest)
+    .then(() => expectedMD5 || fileChecksum(dest))
+    .catch(err => (err.code === 'EXDEV')
+      // Not on the same volume after all, copy instead.
+      ? verified(() => copy(source, dest, onProgress), dest, expectedMD5)
+      : Promise.reject(err));
+}
+
+/**
+ * copy, move or link a mod archive into the download folder and verify the result
+ * @param {string} modArchivePath
  * @param {string} destSavePath
+ * @param {string} expectedMD5 md5 hash of the source archive
+ * @param {TransferStrategy} strategy
+ * @param {function} onProgress receives the number of bytes transferred so far,
+ *                              strategies that don't copy data don't report progress
+ * @returns {Promise<string>} md5 hash of the transferred archive
  */
 export function transferArchive(modArchivePath: string,
-                                destSavePath: string): Promise<void> {
-  return fs.copyAsync(modArchivePath, path.join(destSavePath, path.basename(modArchivePath)));
+                                destSavePath: string,
+                                expectedMD5: string,
+                                strategy: TransferStrategy = 'copy',
+                                onProgress: (bytes: number) => void = () => undefined)
+                                : Promise<string> {
+  const dest = path.join(destSavePath, path.basename(modArchivePath));
+  switch (strategy) {
+    case 'move': return move(modArchivePath, dest, expectedMD5, onProgress);
+    case 'hardlink': return hardlink(modArchivePath, dest, expectedMD5, onProgress);
+    // reflinks may fall back to a regular copy
+    case 'reflink': return verified(() => reflink(modArchivePath, dest), dest, expectedMD5);
+    default: return verified(() => copy(modArchivePath, dest, onProgress), dest, expectedMD5);
+  }
+}
+
+/**
+ * determine whether two paths are on the same volume, which is a
+ * requirement for hard links and makes moving files (almost) free
+ */
+export function isSameVolume(lhs: string, rhs: string): Promise<boolean> {
+  return Promise.all([fs.statAsync(lhs), fs.statAsync(rhs)])
+    .then(([lhsStats, rhsStats]) => lhsStats.dev === rhsStats.dev)
+    .catch(() => false);
+}
+
+/**
+ * whether transferring an archive with the specified strategy will take up
+ * additional disk space
+ */
+export function requiresDiskSpace(strategy: TransferStrategy, sameVolume: boolean): boolean {
+  // reflinks may silently fall back to copying so we can't rely
+  //  on them not taking up space
+  return !((['move', 'hardlink'].indexOf(strategy) !== -1) && sameVolume);
 }
 
 function byLength(lhs: string, rhs: string): number {
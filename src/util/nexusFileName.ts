@@ -0,0 +1,33 @@
+import * as path from 'path';
+
+export interface INexusFileName {
+  modName: string;
+  modId: string;
+  version: string;
+  // unix time (in seconds) the file was uploaded to Nexus Mods
+  uploadTime: number;
+}
+
+// Nexus Mods names the files it serves <name>-<mod id>-<version>-<upload time>,
+//  with the dots in the version replaced by dashes. The name may contain dashes and
+//  numbers itself so the fields are matched from the right: the upload time, the version
+//  segments (each starting with a digit) and the mod id right before them.
+const NEXUS_FILE_NAME =
+  /^(.+?)-([0-9]+)-(v?[0-9][0-9a-zA-Z]*(?:-[0-9][0-9a-zA-Z]*)*)-([0-9]{9,10})$/;
+
+/**
+ * parse the name of an archive downloaded from Nexus Mods, undefined if it
+ * doesn't follow the naming pattern
+ */
+export function parseNexusFileName(fileName: string): INexusFileName {
+  const match = path.basename(fileName, path.extname(fileName)).match(NEXUS_FILE_NAME);
+  if (match === null) {
+    return undefined;
+  }
+  return {
+    modName: match[1],
+    modId: match[2],
+    version: match[3].replace(/-/g, '.'),
+    uploadTime: parseInt(match[4], 10),
+  };
+}
@@ -1,15 +1,74 @@
-import { IFileEntry, IModEntry, ParseError } from '../types/nmmEntries';
+import { IInstallLog } from '../types/installLog';
+import { IFileEntry, IModEntry, ParseError, UnsupportedVersionError } from '../types/nmmEntries';
+import { IDuplicateIndex, markDuplicate } from './duplicates';
+import HashCache from './HashCache';
+import { readInstallLog } from './installLog';
 
 import Promise from 'bluebird';
-import * as modmeta from 'modmeta-db';
 import * as path from 'path';
-import { fs, log, types, util } from 'vortex-api';
+import { fs, log, util } from 'vortex-api';
 
-interface IModMap {
-  [modId: string]: types.IMod;
+interface IConfigSchema {
+  // the oldest fileVersion written in this format
+  version: string;
+  getArchiveLocation: (modInfo: Element, modsPath: string) => { dir: string, name: string };
+  getLinkProperty: (link: Element, name: string) => string;
+  // downloadId and FileVersion were only stored from 0.3.0.0 on
+  hasFileInfo: boolean;
 }
 
-function getModInfoList(xmlData: string): Promise<HTMLCollectionOf<Element>> {
+function compareVersions(lhs: string, rhs: string): number {
+  const lhsSegs = lhs.split('.').map(seg => parseInt(seg, 10) || 0);
+  const rhsSegs = rhs.split('.').map(seg => parseInt(seg, 10) || 0);
+  for (let i = 0; i < Math.max(lhsSegs.length, rhsSegs.length); ++i) {
+    const diff = (lhsSegs[i] || 0) - (rhsSegs[i] || 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+}
+
+// 0.1.0.0 stored the full path of the archive in modFileName
+function getArchiveFromPath(modInfo: Element, modsPath: string): { dir: string, name: string } {
+  const fileName = modInfo.getAttribute('modFileName');
+  const dir = path.win32.dirname(fileName);
+  return { dir: (dir !== '.') ? dir : modsPath, name: path.win32.basename(fileName) };
+}
+
+// from 0.2.0.0 on the folder is stored separately, it's empty for archives in the mods folder
+function getArchiveFromFields(modInfo: Element, modsPath: string): { dir: string, name: string } {
+  return {
+    dir: modInfo.getAttribute('modFilePath') || modsPath,
+    name: modInfo.getAttribute('modFileName'),
+  };
+}
+
+function getLinkChild(link: Element, name: string): string {
+  const child = link.getElementsByTagName(name)[0];
+  return (child !== undefined) ? child.textContent : undefined;
+}
+
+function getLinkAttribute(link: Element, name: string): string {
+  return link.getAttribute(name);
+}
+
+// The formats NMM wrote, newest first. The first versions didn't store a version at all.
+const SCHEMAS: IConfigSchema[] = [
+  { version: '0.3.0.0', getArchiveLocation: getArchiveFromFields,
+    getLinkProperty: getLinkChild, hasFileInfo: true },
+  { version: '0.2.0.0', getArchiveLocation: getArchiveFromFields,
+    getLinkProperty: getLinkChild, hasFileInfo: false },
+  { version: '0.0.0.0', getArchiveLocation: getArchiveFromPath,
+    getLinkProperty: getLinkAttribute, hasFileInfo: false },
+];
+
+interface IModInfoList {
+  schema: IConfigSchema;
+  modInfos: Element[];
+}
+
+function getModInfoList(xmlData: string): Promise<IModInfoList> {
   return new Promise((resolve, reject) => {
     const parser = new DOMParser();
     const xmlDoc = parser.parseFromString(xmlData, 'text/xml');
@@ -21,76 +80,161 @@ function getModInfoList(xmlData: string): Promise<HTMLCollectionOf<Element>> {
           'The selected folder does not contain a valid VirtualModConfig.xml file.'));
     }
 
-    if (version.getAttribute('fileVersion') !== '0.3.0.0') {
-      return reject(new ParseError(
-          'The selected folder contains an older VirtualModConfig.xml file,' +
-          'you need to upgrade your NMM before proceeding with the mod import.'));
+    const fileVersion = version.getAttribute('fileVersion') || '0.0.0.0';
+    if (compareVersions(fileVersion, SCHEMAS[0].version) > 0) {
+      return reject(new UnsupportedVersionError(
+          `The selected folder contains a VirtualModConfig.xml file of an unknown version `
+          + `(${fileVersion}), you may need to update Vortex.`));
     }
 
-    return resolve(xmlDoc.getElementsByTagName('modInfo'));
+    return resolve({
+      schema: SCHEMAS.find(iter => compareVersions(fileVersion, iter.version) >= 0),
+      modInfos: Array.from(xmlDoc.getElementsByTagName('modInfo')),
+    });
   });
 }
 
-export function isConfigEmpty(configFilePath: string): Promise<boolean> {
+export function parseFileEntries(modInfo: Element,
+                                 schema: IConfigSchema = SCHEMAS[0]): IFileEntry[] {
+  return Array.from(modInfo.getElementsByTagName('fileLink')).map((link): IFileEntry => ({
+    fileSource: link.getAttribute('realPath'),
+    fileDestination: link.getAttribute('virtualPath'),
+    isActive: (schema.getLinkProperty(link, 'isActive') || '').toLowerCase() === 'true',
+    filePriority: parseInt(schema.getLinkProperty(link, 'linkPriority'), 10) || 0,
+  }));
+}
+
+export function isConfigEmpty(configFilePath: string, modsPath?: string): Promise<boolean> {
   return fs.readFileAsync(configFilePath)
     .then(data => getModInfoList(data.toString('utf-8')))
-    .then(modInfoList => {
-      return ((modInfoList === undefined) || (modInfoList.length === 0))
-        ? Promise.resolve(true)
-        : Promise.resolve(false);
-    })
-    .catch(err => Promise.resolve(true));
+    .then(modInfoList => Promise.resolve(modInfoList.modInfos.length === 0))
+    .catch(err => ((err.code === 'ENOENT') && (modsPath !== undefined))
+      ? getLinkedFiles(configFilePath, modsPath).then(files => files.length === 0)
+      : Promise.resolve(true));
 }
 
-export function parseNMMConfigFile(nmmFilePath: string, mods: IModMap): Promise<IModEntry[]> {
+/**
+ * list the data files NMM links into the game directory, relative to the data folder
+ */
+export function getLinkedFiles(configFilePath: string, modsPath?: string): Promise<string[]> {
+  return fs.readFileAsync(configFilePath)
+    .then(data => getModInfoList(data.toString('utf-8')))
+    .then(({ schema, modInfos }) => modInfos.reduce((prev: string[], modInfo: Element) =>
+      prev.concat(parseFileEntries(modInfo, schema).map(entry => entry.fileDestination)), []))
+    .catch(err => ((err.code === 'ENOENT') && (modsPath !== undefined))
+      // NMM without virtual install, the install log knows which files it installed
+      ? readInstallLog(modsPath)
+        .then(installLog => (installLog !== undefined)
+          ? Object.keys(installLog.owners)
+          : [])
+      : Promise.resolve([]))
+    .catch(err => Promise.resolve([]));
+}
+
+export function parseNMMConfigFile(nmmFilePath: string,
+                                   duplicates: IDuplicateIndex,
+                                   hashes: HashCache,
+                                   modsPath?: string): Promise<IModEntry[]> {
   return fs.readFileAsync(nmmFilePath)
-    .then(data => parseModEntries(data.toString('utf-8'), mods)
+    .then(data => parseModEntries(data.toString('utf-8'), duplicates, hashes, modsPath)
       .then(modEntries => modEntries.filter(entry => entry !== undefined)))
-    .catch(err => Promise.reject(new ParseError(
-      'The selected folder does not contain a VirtualModConfig.xml file.')));
+    .catch(err => (err instanceof ParseError)
+      ? Promise.reject(err)
+      : Promise.reject(new ParseError(
+        'The selected folder does not contain a VirtualModConfig.xml file.')));
 }
 
 // exported so it can be unit-tested (ugh)
-export function parseModEntries(xmlData: string, mods: IModMap): Promise<IModEntry[]> {
-  // lookup to determine if a mod is already installed in vortex
-  const modListSet = new Set(Object.keys(mods || {}).map((key: string) => mods[key].id));
-
+export function parseModEntries(xmlData: string,
+                                duplicates: IDuplicateIndex,
+                                hashes: HashCache,
+                                modsPath?: string): Promise<IModEntry[]> {
   return getModInfoList(xmlData)
-    .then(modInfoList => {
-      if ((modInfoList === undefined) || (modInfoList.length <= 0)) {
+    .then(({ schema, modInfos }) => {
+      if (modInfos.length <= 0) {
         return Promise.reject(new ParseError(
           'The selected folder contains an empty VirtualModConfig.xml file.'));
       }
 
-      return Promise.map(Array.from(modInfoList), (modInfo: Element): Promise<IModEntry> => {
+      return Promise.map(modInfos, (modInfo: Element): Promise<IModEntry> => {
+        const archive = schema.getArchiveLocation(modInfo, modsPath);
         const res: IModEntry = {
           nexusId: modInfo.getAttribute('modId'),
           vortexId: undefined,
-          downloadId: parseInt(modInfo.getAttribute('downloadId'), 10) || undefined,
+          downloadId: schema.hasFileInfo
+            ? (parseInt(modInfo.getAttribute('downloadId'), 10) || undefined)
+            : undefined,
           modName: modInfo.getAttribute('modName'),
-          modFilename: modInfo.getAttribute('modFileName'),
-          archivePath: modInfo.getAttribute('modFilePath'),
-          modVersion: modInfo.getAttribute('FileVersion'),
+          modFilename: archive.name,
+          archivePath: archive.dir,
+          modVersion: (schema.hasFileInfo ? modInfo.getAttribute('FileVersion') : '') || '',
           importFlag: true,
           archiveMD5: null,
           isAlreadyManaged: false,
+          fileEntries: parseFileEntries(modInfo, schema),
         };
 
         const archiveName =
             path.basename(res.modFilename, path.extname(res.modFilename));
         res.vortexId = util.deriveInstallName(archiveName, {});
-        res.isAlreadyManaged = modListSet.has(res.vortexId);
 
         const modArchiveFilePath = path.join(res.archivePath, res.modFilename);
-        return fs.statAsync(modArchiveFilePath)
-          .then(() => modmeta.genHash(modArchiveFilePath))
-          .then((hashResult: modmeta.IHashResult) => {
-            res.archiveMD5 = hashResult.md5sum;
-            return Promise.resolve(res);
+        return hashes.hash(modArchiveFilePath)
+          .then(hashResult => {
+            res.archiveMD5 = hashResult.md5;
+            res.archiveSize = hashResult.size;
+            return Promise.resolve(markDuplicate(duplicates, res));
           })
           .catch(() => Promise.resolve(undefined));
       });
     });
 }
 
+function installLogFileEntries(installLog: IInstallLog, modKey: string): IFileEntry[] {
+  return (installLog.files[modKey] || []).map((filePath): IFileEntry => ({
+    fileSource: undefined,
+    fileDestination: filePath,
+    isActive: installLog.owners[filePath] === modKey,
+    filePriority: 0,
+  }));
+}
+
+/**
+ * build the mod entries for an NMM installation from before the virtual install,
+ * where the install log is the only record of the installed mods
+ */
+export function parseInstallLogEntries(modsPath: string,
+                                       duplicates: IDuplicateIndex,
+                                       hashes: HashCache): Promise<IModEntry[]> {
+  return readInstallLog(modsPath)
+    .then(installLog => (installLog === undefined)
+      ? Promise.resolve([])
+      : Promise.map(Object.keys(installLog.mods), key => {
+          const mod = installLog.mods[key];
+          const res: IModEntry = {
+            nexusId: undefined,
+            vortexId: util.deriveInstallName(
+              path.basename(mod.archiveName, path.extname(mod.archiveName)), {}),
+            downloadId: undefined,
+            modName: mod.name || path.basename(mod.archiveName, path.extname(mod.archiveName)),
+            modFilename: mod.archiveName,
+            archivePath: modsPath,
+            modVersion: mod.version || '',
+            importFlag: true,
+            archiveMD5: null,
+            isAlreadyManaged: false,
+            fileEntries: installLogFileEntries(installLog, mod.key),
+          };
+          return hashes.hash(path.join(modsPath, mod.archiveName))
+            .then(hashResult => {
+              res.archiveMD5 = hashResult.md5;
+              res.archiveSize = hashResult.size;
+              return markDuplicate(duplicates, res);
+            })
+            // the archive was deleted since
+            .catch(() => undefined);
+        })
+        .filter(entry => entry !== undefined));
+}
+
 export default parseNMMConfigFile;
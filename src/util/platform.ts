@@ -0,0 +1,131 @@
+import { IPlatformServices, IProcessInfo } from '../types/platform';
+
+import { execFileSync } from 'child_process';
+import * as nodeFs from 'fs';
+import * as path from 'path';
+import { util } from 'vortex-api';
+
+interface IStatFs {
+  bavail: number;
+  bsize: number;
+}
+
+// statfsSync was added in node 18.15 and isn't part of the node typings we build against
+const fsExt: typeof nodeFs & { statfsSync?: (filePath: string) => IStatFs } = nodeFs;
+
+function freeSpaceDf(rootPath: string): number {
+  let output: string;
+  try {
+    output = execFileSync('df', ['-Pk', rootPath], { encoding: 'utf-8' });
+  } catch (err) {
+    throw new Error(`Failed to determine free disk space on "${rootPath}": ${err.message}`);
+  }
+  // second line: filesystem, 1k blocks, used, available, capacity, mount point
+  const available = parseInt((output.split('\n')[1] || '').trim().split(/\s+/)[3], 10);
+  if (isNaN(available)) {
+    throw new Error(`Failed to determine free disk space on "${rootPath}": unexpected df output`);
+  }
+  return available * 1024;
+}
+
+function windowsServices(): IPlatformServices {
+  // native module, only available on windows
+  const winapi = require('winapi-bindings');
+  return {
+    getVolumeRoot: (dirPath: string) => winapi.GetVolumePathName(dirPath),
+    getFreeSpace: (rootPath: string) => winapi.GetDiskFreeSpaceEx(rootPath).free,
+    getProcessList: () => winapi.GetProcessList().map((proc): IProcessInfo => ({
+      pid: proc.processID,
+      exeFile: proc.exeFile,
+    })),
+    getLocalAppData: () => util.getVortexPath('localAppData'),
+  };
+}
+
+function closestExisting(dirPath: string): string {
+  let current = path.resolve(dirPath);
+  while (!nodeFs.existsSync(current) && (path.dirname(current) !== current)) {
+    current = path.dirname(current);
+  }
+  return current;
+}
+
+function readProcess(pid: number): IProcessInfo {
+  try {
+    // wine processes show up with their windows path as the first argument
+    const args = nodeFs.readFileSync(`/proc/${pid}/cmdline`, { encoding: 'utf-8' }).split('\0');
+    const exeFile = (args[0].length > 0)
+      ? path.win32.basename(args[0])
+      : nodeFs.readFileSync(`/proc/${pid}/comm`, { encoding: 'utf-8' }).trim();
+    return { pid, exeFile };
+  } catch (err) {
+    // process ended while we were looking at it
+    return undefined;
+  }
+}
+
+function posixServices(): IPlatformServices {
+  return {
+    getVolumeRoot: (dirPath: string) => {
+      // the mount point is the top-most directory on the same device
+      let current = closestExisting(dirPath);
+      const dev = nodeFs.statSync(current).dev;
+      while ((path.dirname(current) !== current)
+             && (nodeFs.statSync(path.dirname(current)).dev === dev)) {
+        current = path.dirname(current);
+      }
+      return current;
+    },
+    getFreeSpace: (rootPath: string) => {
+      if (typeof fsExt.statfsSync !== 'function') {
+        return freeSpaceDf(rootPath);
+      }
+      const stats = fsExt.statfsSync(rootPath);
+      return stats.bavail * stats.bsize;
+    },
+    getProcessList: () => {
+      let entries: string[];
+      try {
+        entries = nodeFs.readdirSync('/proc');
+      } catch (err) {
+        // no procfs (macOS), we can't tell
+        return [];
+      }
+      return entries
+        .filter(entry => /^[0-9]+$/.test(entry))
+        .map(entry => readProcess(parseInt(entry, 10)))
+        .filter(proc => proc !== undefined);
+    },
+    // NMM itself only runs through wine here, the prefixes get searched separately
+    getLocalAppData: () => util.getVortexPath('localAppData'),
+  };
+}
+
+/**
+ * services that don't touch the system, for tests
+ */
+export function fakeServices(options: { freeSpace?: number, processes?: string[],
+                                        localAppData?: string } = {}): IPlatformServices {
+  const { freeSpace = Number.MAX_SAFE_INTEGER, processes = [], localAppData = '' } = options;
+  return {
+    getVolumeRoot: (dirPath: string) => path.parse(path.resolve(dirPath)).root,
+    getFreeSpace: () => freeSpace,
+    getProcessList: () => processes.map((exeFile, idx) => ({ pid: idx + 1, exeFile })),
+    getLocalAppData: () => localAppData,
+  };
+}
+
+let services: IPlatformServices;
+
+export function getPlatformServices(): IPlatformServices {
+  if (services === undefined) {
+    services = (process.platform === 'win32')
+      ? windowsServices()
+      : posixServices();
+  }
+  return services;
+}
+
+export function setPlatformServices(override: IPlatformServices) {
+  services = override;
+}
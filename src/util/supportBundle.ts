@@ -0,0 +1,21 @@
+import Promise from 'bluebird';
+import * as path from 'path';
+import { fs, util } from 'vortex-api';
+
+// What support needs to make sense of a failed import
+const BUNDLE_FILES = ['trace.jsonl', 'migration.log', 'parsedMods.json', 'VirtualModConfig.xml'];
+
+/**
+ * zip up the files of an import session to attach them to a support request
+ */
+export function createSupportBundle(sessionPath: string, bundlePath: string): Promise<void> {
+  return Promise.filter(BUNDLE_FILES.map(fileName => path.join(sessionPath, fileName)),
+                        filePath => fs.statAsync(filePath).then(() => true).catch(() => false))
+    .then(files => (files.length === 0)
+      ? Promise.reject(new Error('The import session has no files to bundle'))
+      // 7z would add the files to an existing archive
+      : fs.removeAsync(bundlePath)
+        .catch(err => (err.code === 'ENOENT') ? Promise.resolve() : Promise.reject(err))
+        .then(() => Promise.resolve(new util.SevenZip().add(bundlePath, files, { ssw: true }))))
+    .then(() => undefined);
+}
@@ -0,0 +1,200 @@
+import { IJournalState } from '../types/journal';
+import ImportJournal from './ImportJournal';
+import { removeLoadOrderRules } from './loadOrder';
+
+import Promise from 'bluebird';
+import * as path from 'path';
+import { actions, fs, selectors, types, util } from 'vortex-api';
+
+export interface IUndoResult {
+  removedDownloads: number;
+  removedCategories: number;
+  // mods generated from unmanaged files
+  removedMods: number;
+  removedProfiles: number;
+  removedRules: number;
+  // human readable description of everything we could not revert
+  notReverted: string[];
+}
+
+function removeArchive(journal: IJournalState, modFilename: string,
+                       downloadPath: string): Promise<void> {
+  const { plan } = journal;
+  const archivePath = path.join(downloadPath, modFilename);
+  if (plan.strategy === 'move') {
+    // the archive is no longer in the NMM mods folder, put it back
+    const mod = plan.mods.find(iter => iter.modFilename === modFilename);
+    return fs.renameAsync(archivePath, path.join(mod.archivePath, modFilename))
+      .catch(err => (err.code === 'EXDEV')
+        ? fs.copyAsync(archivePath, path.join(mod.archivePath, modFilename))
+          .then(() => fs.removeAsync(archivePath))
+        : Promise.reject(err));
+  }
+  return fs.removeAsync(archivePath);
+}
+
+function removeMod(api: types.IExtensionApi, gameId: string, modId: string): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    api.events.emit('remove-mod', gameId, modId, (err: Error) => err
+      ? reject(err)
+      : resolve());
+  });
+}
+
+/**
+ * remove the mods generated from unmanaged files. The files they were copied
+ * from are still in the data folder
+ */
+function removeUnmanagedMods(api: types.IExtensionApi, journal: IJournalState,
+                             result: IUndoResult): Promise<void> {
+  const { gameId } = journal.plan;
+  const modIds = Object.keys(journal.unmanagedMods).map(group => journal.unmanagedMods[group]);
+  return Promise.each(modIds, modId => {
+    const mod = util.getSafe(api.getState(), ['persistent', 'mods', gameId, modId], undefined);
+    if (mod === undefined) {
+      return Promise.resolve();
+    }
+    return removeMod(api, gameId, modId)
+      .then(() => {
+        ++result.removedMods;
+      })
+      .catch(err => {
+        result.notReverted.push(`The mod "${util.renderModName(mod)}" could not be removed: `
+          + err.message);
+      });
+  })
+    .then(() => undefined);
+}
+
+/**
+ * remove what finishImport recreated from the NMM setup: conflict rules,
+ * profiles and the plugin load order
+ */
+function removeRecreated(api: types.IExtensionApi, journal: IJournalState,
+                         result: IUndoResult) {
+  const { gameId } = journal.plan;
+  journal.rules.forEach(iter => {
+    const state: types.IState = api.store.getState();
+    if (util.getSafe(state, ['persistent', 'mods', gameId, iter.modId], undefined)
+        !== undefined) {
+      api.store.dispatch(actions.removeModRule(gameId, iter.modId, iter.rule as any));
+      ++result.removedRules;
+    }
+  });
+
+  journal.profiles.forEach(profileId => {
+    const state: types.IState = api.store.getState();
+    const profile = util.getSafe(state, ['persistent', 'profiles', profileId], undefined);
+    if (profile === undefined) {
+      return;
+    }
+    const { activeProfileId, nextProfileId } = state.settings.profiles;
+    if ((profileId === activeProfileId) || (profileId === nextProfileId)) {
+      result.notReverted.push(`Profile "${profile.name}" is active, it was left in place`);
+    } else {
+      api.store.dispatch(actions.removeProfile(profileId));
+      ++result.removedProfiles;
+    }
+  });
+
+  if (journal.loadOrder !== undefined) {
+    if (journal.loadOrder.mode === 'rules') {
+      removeLoadOrderRules(api, journal.loadOrder.plugins);
+    } else {
+      result.notReverted.push('The plugin load order was overwritten with the one from NMM, '
+        + 'it can not be restored');
+    }
+  }
+}
+
+function removeDownloads(api: types.IExtensionApi, journal: IJournalState,
+                         result: IUndoResult): Promise<void> {
+  const { gameId } = journal.plan;
+  const state: types.IState = api.store.getState();
+  const downloads = util.getSafe(state, ['persistent', 'downloads', 'files'], {});
+  const mods = util.getSafe(state, ['persistent', 'mods', gameId], {});
+  const downloadPath = selectors.downloadPathForGame(state, gameId);
+
+  return Promise.each(journal.registered, modFilename => {
+    const archiveId = journal.archiveIds[modFilename];
+    const installed = Object.keys(mods).find(modId => mods[modId].archiveId === archiveId);
+    if (installed !== undefined) {
+      result.notReverted.push(`"${modFilename}" has already been installed as the mod `
+        + `"${util.renderModName(mods[installed])}", it was left in place`);
+      return Promise.resolve();
+    }
+
+    if (downloads[archiveId] !== undefined) {
+      api.store.dispatch(actions.removeDownload(archiveId));
+      ++result.removedDownloads;
+    }
+    return removeArchive(journal, modFilename, downloadPath)
+      .catch(err => {
+        result.notReverted.push(`"${modFilename}" could not be removed: ${err.message}`);
+      });
+  })
+    .then(() => undefined);
+}
+
+function isCategoryUsed(state: types.IState, gameId: string, categoryId: string): boolean {
+  const mods = util.getSafe(state, ['persistent', 'mods', gameId], {});
+  const downloads = util.getSafe(state, ['persistent', 'downloads', 'files'], {});
+  const categories = util.getSafe(state, ['persistent', 'categories', gameId], {});
+
+  return (Object.keys(mods).find(modId =>
+            util.getSafe(mods[modId], ['attributes', 'category'], undefined) === categoryId)
+          !== undefined)
+      || (Object.keys(downloads).find(dlId =>
+            util.getSafe(downloads[dlId], ['modInfo', 'custom', 'category'], undefined)
+              === categoryId)
+          !== undefined)
+      || (Object.keys(categories).find(catId =>
+            categories[catId].parentCategory === categoryId)
+          !== undefined);
+}
+
+/**
+ * revert the changes a completed import session made to Vortex: remove the
+ * conflict rules, profiles and load order rules recreated from NMM, the mods
+ * generated from unmanaged files, the downloads it added along with the
+ * archive files and the categories that are no longer in use
+ */
+export function undoImport(api: types.IExtensionApi,
+                           journalState: IJournalState): Promise<IUndoResult> {
+  const { gameId } = journalState.plan;
+  const result: IUndoResult = {
+    removedDownloads: 0,
+    removedCategories: 0,
+    removedMods: 0,
+    removedProfiles: 0,
+    removedRules: 0,
+    notReverted: [],
+  };
+  removeRecreated(api, journalState, result);
+
+  return removeUnmanagedMods(api, journalState, result)
+    .then(() => removeDownloads(api, journalState, result))
+    .then(() => {
+      // children were created after their parent so remove them in reverse order
+      const created = Array.from(new Set<string>(journalState.categories)).reverse();
+      created.forEach(categoryId => {
+        const current: types.IState = api.store.getState();
+        if (util.getSafe(current, ['persistent', 'categories', gameId, categoryId], undefined)
+            === undefined) {
+          return;
+        }
+        if (isCategoryUsed(current, gameId, categoryId)) {
+          const name = current.persistent.categories[gameId][categoryId].name;
+          result.notReverted.push(`Category "${name}" is still in use, it was left in place`);
+        } else {
+          api.store.dispatch(actions.removeCategory(gameId, categoryId));
+          ++result.removedCategories;
+        }
+      });
+
+      const journal = new ImportJournal(journalState.sessionPath, journalState);
+      return journal.open()
+        .then(() => journal.revert());
+    })
+    .then(() => result);
+}
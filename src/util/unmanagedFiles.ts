@@ -0,0 +1,162 @@
+import { IUnmanagedFile } from '../types/unmanagedFiles';
+import { normalizeDataPath } from './installLog';
+import { getGameSupport, isStockFile } from './gameSupport';
+import ImportJournal from './ImportJournal';
+import { getLinkedFiles } from './nmmVirtualConfigParser';
+import TraceImport from './TraceImport';
+
+import Promise from 'bluebird';
+import * as path from 'path';
+import { generate as shortid } from 'shortid';
+import { actions, fs, selectors, types, util } from 'vortex-api';
+
+// Files Vortex itself places inside the data folder.
+const VORTEX_FILES = new Set<string>([
+  '__folder_managed_by_vortex',
+  'vortex.deployment.json',
+  'vortex.deployment.msgpack',
+]);
+
+export function getUnmanagedModName(group: number): string {
+  return (group > 1)
+    ? `Unmanaged (imported) ${group}`
+    : 'Unmanaged (imported)';
+}
+
+function getDataPath(state: types.IState, gameId: string): string {
+  const discovery = selectors.discoveryByGame(state, gameId);
+  const game = util.getGame(gameId);
+  if ((discovery === undefined) || (discovery.path === undefined)) {
+    return undefined;
+  }
+  if (game === undefined) {
+    const support = getGameSupport(gameId);
+    return ((support !== undefined) && (support.dataPath !== undefined))
+      ? path.resolve(discovery.path, support.dataPath)
+      : undefined;
+  }
+  return path.resolve(discovery.path, game.queryModPath(discovery.path));
+}
+
+function walk(basePath: string, relPath: string,
+              onFile: (relPath: string, size: number) => void): Promise<void> {
+  return fs.readdirAsync(path.join(basePath, relPath))
+    .then((entries: string[]) => Promise.each(entries, entry => {
+      const entryPath = path.join(relPath, entry);
+      return fs.lstatAsync(path.join(basePath, entryPath))
+        .then(stats => {
+          if (stats.isDirectory()) {
+            return walk(basePath, entryPath, onFile);
+          } else if (!stats.isSymbolicLink()) {
+            // symbolic links are NMM's (or Vortex's) doing
+            onFile(entryPath, stats.size);
+          }
+          return Promise.resolve();
+        });
+    }))
+    .then(() => undefined);
+}
+
+function getDeployedFiles(api: types.IExtensionApi, gameId: string): Promise<Set<string>> {
+  return Promise.resolve(util.getManifest(api, '', gameId))
+    .then(manifest => new Set<string>(
+      ((manifest !== undefined) ? manifest.files : [])
+        .map(file => normalizeDataPath(file.relPath))))
+    .catch(() => new Set<string>());
+}
+
+/**
+ * list files in the game's data folder that neither NMM nor Vortex manage
+ */
+export function findUnmanagedFiles(api: types.IExtensionApi,
+                                   gameId: string,
+                                   virtualConfigPath: string,
+                                   modsPath?: string): Promise<IUnmanagedFile[]> {
+  const dataPath = getDataPath(api.getState(), gameId);
+  if (dataPath === undefined) {
+    return Promise.resolve([]);
+  }
+
+  return Promise.all([getLinkedFiles(virtualConfigPath, modsPath), getDeployedFiles(api, gameId)])
+    .then(([linked, deployed]) => {
+      const managed = new Set<string>(linked.map(normalizeDataPath));
+      const result: IUnmanagedFile[] = [];
+      return walk(dataPath, '', (relPath, size) => {
+        const normalized = normalizeDataPath(relPath);
+        if (!managed.has(normalized)
+            && !deployed.has(normalized)
+            && !VORTEX_FILES.has(path.basename(normalized))
+            && !isStockFile(gameId, normalized)) {
+          result.push({ relPath, size, group: 0 });
+        }
+      })
+      .then(() => result);
+    })
+    .catch(err => (err.code === 'ENOENT')
+      ? Promise.resolve([])
+      : Promise.reject(err));
+}
+
+/**
+ * copy the selected files from the data folder into newly generated mods,
+ * one mod per group. The originals are left in place, deploying the mods
+ * replaces them. Groups the journal lists as done already are skipped.
+ * Resolves to the ids of the generated mods
+ */
+export function importUnmanagedFiles(api: types.IExtensionApi,
+                                     gameId: string,
+                                     files: IUnmanagedFile[],
+                                     trace: TraceImport,
+                                     journal: ImportJournal): Promise<string[]> {
+  const state = api.getState();
+  const dataPath = getDataPath(state, gameId);
+  const stagingPath = selectors.installPathForGame(state, gameId);
+  const profileId = selectors.lastActiveProfileForGame(state, gameId);
+
+  const groups = files.reduce((prev: { [group: number]: IUnmanagedFile[] }, file) => {
+    if (file.group > 0) {
+      prev[file.group] = [].concat(prev[file.group] || [], file);
+    }
+    return prev;
+  }, {});
+
+  const done = journal.state.unmanagedMods;
+  const created: string[] = Object.keys(done).map(group => done[group]);
+  return Promise.each(Object.keys(groups), groupKey => {
+    const group = parseInt(groupKey, 10);
+    if (done[group] !== undefined) {
+      return Promise.resolve();
+    }
+    const modId = `nmm-unmanaged-${shortid()}`;
+    const modName = getUnmanagedModName(group);
+    trace.log('info', 'Importing unmanaged files', `${modName}: ${groups[group].length} files`);
+    return Promise.each(groups[group], file =>
+      fs.ensureDirAsync(path.dirname(path.join(stagingPath, modId, file.relPath)))
+        .then(() => fs.copyAsync(path.join(dataPath, file.relPath),
+                                 path.join(stagingPath, modId, file.relPath))))
+      .then(() => {
+        const mod: types.IMod = {
+          id: modId,
+          state: 'installed',
+          type: '',
+          installationPath: modId,
+          attributes: {
+            name: modName,
+            installTime: new Date(),
+            notes: 'Files found in the game folder which were not managed by NMM',
+          },
+        };
+        api.store.dispatch(actions.addMod(gameId, mod));
+        if (profileId !== undefined) {
+          api.store.dispatch(actions.setModEnabled(profileId, modId, true));
+        }
+        journal.unmanagedCreated(group, modId);
+        created.push(modId);
+      })
+      .catch(err => {
+        trace.log('error', 'Failed to import unmanaged files', modName + ' - ' + err.message,
+                  { code: err.code });
+      });
+  })
+  .then(() => created);
+}
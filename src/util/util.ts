@@ -2,11 +2,14 @@ import { createHash } from 'crypto';
 import path from 'path';
 import { TFunction } from 'react-i18next';
 import { pathToFileURL } from 'url';
-import { fs, log, types, util } from 'vortex-api';
-import * as winapi from 'winapi-bindings';
+import { fs, log, selectors, types, util } from 'vortex-api';
 
+import { buildDuplicateIndex, IDuplicateIndex, markDuplicate } from './duplicates';
+import HashCache from './HashCache';
 import { isConfigEmpty } from './nmmVirtualConfigParser';
+import { getPlatformServices } from './platform';
 import { ModsCapacityMap, ICapacityInfo } from '../types/capacityTypes';
+import { IProcessInfo } from '../types/platform';
 import { IModEntry, ModsMap, ProgressCB } from '../types/nmmEntries';
 
 // Doesn't seem to be used any longer, but going to keep it here just in case we need it one day.
@@ -40,7 +43,26 @@ export function getVirtualConfigFilePath(source: string) {
   return path.join(source, 'VirtualInstall', 'VirtualModConfig.xml');
 }
 
+// NMM caches the fomod folder of every archive it knows about inside
+//  "<modsPath>/cache/<archive name>"; cacheInfo.txt holds the sub folder
+//  the fomod folder was found in ('-' if it's at the root of the archive).
+//  Resolves to undefined if cacheInfo.txt doesn't have that format
+export async function getCachedFomodPath(modsPath: string, modFilename: string): Promise<string> {
+  const id = path.basename(modFilename, path.extname(modFilename));
+  const cacheBasePath = path.resolve(modsPath, 'cache', id);
+  const data = await fs.readFileAsync(path.join(cacheBasePath, 'cacheInfo.txt'));
+  const fields = data.toString().trim().split('@@');
+  if ((fields.length < 2) || (fields[1].length === 0)) {
+    return undefined;
+  }
+  return path.join(cacheBasePath, (fields[1] === '-') ? '' : fields[1], 'fomod');
+}
+
 export async function calculateArchiveSize(mod: IModEntry): Promise<number> {
+  if (mod.archiveSize !== undefined) {
+    // already known from hashing the archive
+    return Promise.resolve(mod.archiveSize);
+  }
   try {
     const stats = await fs.statAsync(path.join(mod.archivePath, mod.modFilename));
     return Promise.resolve(stats.size);
@@ -52,7 +74,8 @@ export async function calculateArchiveSize(mod: IModEntry): Promise<number> {
 }
 
 export function getCapacityInformation(dirPath: string): ICapacityInfo {
-  const rootPath = winapi.GetVolumePathName(dirPath);
+  const platform = getPlatformServices();
+  const rootPath = platform.getVolumeRoot(dirPath);
   // It is beyond the scope of the disk space calculation logic to check or ensure
   //  that the installation/download paths exist (this should've been handled before this
   //  stage);
@@ -64,7 +87,7 @@ export function getCapacityInformation(dirPath: string): ICapacityInfo {
   //
   //  The import process will create these directories when mod/archive files are copied over
   //  if they're missing.
-  const totalFreeBytes = winapi.GetDiskFreeSpaceEx(rootPath).free - MIN_DISK_SPACE_OFFSET;
+  const totalFreeBytes = platform.getFreeSpace(rootPath) - MIN_DISK_SPACE_OFFSET;
   return {
     rootPath,
     totalFreeBytes,
@@ -73,8 +96,7 @@ export function getCapacityInformation(dirPath: string): ICapacityInfo {
 
 export async function testAccess(t: TFunction, source: string): Promise<void> {
   // Technically we only need read access, we're going to
-  //  run the MD5 hash generation logic on a random archive
-  //  as that requires Vortex to open the file and that's as
+  //  open a random archive for reading as that's as
   //  invasive as the import tool can get.
   //
   // If this fails, there's no point to continue the import
@@ -92,9 +114,10 @@ export async function testAccess(t: TFunction, source: string): Promise<void> {
 
   const filePath = path.join(path.join(source, dirElements[0]));
   try {
-    await fileChecksum(filePath);
+    const fd = await fs.openAsync(filePath, 'r');
+    await fs.closeAsync(fd);
   } catch (err) {
-    log('error', 'Failed to generate MD5 hash', err);
+    log('error', 'Failed to open archive', err);
     return (err.code !== 'EPERM')
       ? Promise.reject(err)
       : Promise.reject(new Error(t('Vortex is unable to read/open one or more of '
@@ -150,7 +173,8 @@ export async function getArchives(source: string, parsedMods: { [id: string]: IM
 
 export function createModEntry(sourcePath: string,
   input: string,
-  existingDownloads: Set<string>): Promise<IModEntry> {
+  duplicates: IDuplicateIndex,
+  hashes: HashCache): Promise<IModEntry> {
   // Attempt to query cache/meta information from NMM and return a mod entry
   //  to use in the import process.
   const getInner = (ele: Element): string => {
@@ -163,16 +187,10 @@ export function createModEntry(sourcePath: string,
     return undefined;
   };
 
-  const isDuplicate = () => {
-    return (existingDownloads !== undefined)
-      ? existingDownloads.has(input)
-      : false;
-  };
-
   const id = path.basename(input, path.extname(input));
   const cacheBasePath = path.resolve(sourcePath, 'cache', id);
-  return fileChecksum(path.join(sourcePath, input))
-    .then(md5 => fs.readFileAsync(path.join(cacheBasePath, 'cacheInfo.txt'))
+  return hashes.hash(path.join(sourcePath, input))
+    .then(({ md5, size }) => fs.readFileAsync(path.join(cacheBasePath, 'cacheInfo.txt'))
       .then(data => {
         const fields = data.toString().split('@@');
         return fs.readFileAsync(path.join(cacheBasePath,
@@ -192,7 +210,7 @@ export function createModEntry(sourcePath: string,
           }
         };
 
-        return Promise.resolve({
+        return Promise.resolve(markDuplicate(duplicates, {
           nexusId: modId,
           vortexId: '',
           downloadId: downloadId(),
@@ -201,13 +219,14 @@ export function createModEntry(sourcePath: string,
           archivePath: sourcePath,
           modVersion: version,
           archiveMD5: md5,
+          archiveSize: size,
           importFlag: true,
-          isAlreadyManaged: isDuplicate(),
-        });
+          isAlreadyManaged: false,
+        }));
       })
       .catch(err => {
         log('error', 'could not parse the mod\'s cache information', err);
-        return Promise.resolve({
+        return Promise.resolve(markDuplicate(duplicates, {
           nexusId: '',
           vortexId: '',
           downloadId: 0,
@@ -216,15 +235,16 @@ export function createModEntry(sourcePath: string,
           archivePath: sourcePath,
           modVersion: '',
           archiveMD5: md5,
+          archiveSize: size,
           importFlag: true,
-          isAlreadyManaged: isDuplicate(),
-        });
+          isAlreadyManaged: false,
+        }));
       }));
 }
 
 export function isNMMRunning(): boolean {
-  const processes = winapi.GetProcessList();
-  const runningExes: { [exeId: string]: winapi.ProcessEntry } =
+  const processes = getPlatformServices().getProcessList();
+  const runningExes: { [exeId: string]: IProcessInfo } =
     processes.reduce((prev, entry) => {
       prev[entry.exeFile.toLowerCase()] = entry;
       return prev;
@@ -233,8 +253,9 @@ export function isNMMRunning(): boolean {
   return Object.keys(runningExes).find(key => key === 'nexusclient.exe') !== undefined;
 }
 
-export async function validate(source: string) {
-  const res = await isConfigEmpty(path.join(source, 'VirtualInstall', 'VirtualModConfig.xml'));
+export async function validate(source: string, modsPath?: string) {
+  const res = await isConfigEmpty(path.join(source, 'VirtualInstall', 'VirtualModConfig.xml'),
+                                  modsPath);
   const nmmRunning = isNMMRunning();
   return Promise.resolve({
     nmmModsEnabled: !res,
@@ -260,24 +281,34 @@ export async function calculateModsCapacity(modList: IModEntry[], cb: (err: Erro
 export async function generateModEntries(api: types.IExtensionApi,
                                          source: string[],
                                          parsedMods: ModsMap,
+                                         hashes: HashCache,
                                          cb: ProgressCB): Promise<ModsMap> {
   const state = api.getState();
-  let existingDownloads: Set<string>;
-  const downloads = util.getSafe(state, ['persistent', 'downloads', 'files'], undefined);
-  if ((downloads !== undefined) && (Object.keys(downloads).length > 0)) {
-    existingDownloads = new Set<string>(
-      Object.keys(downloads).map(key => downloads[key].localPath));
-  }
+  const duplicates = buildDuplicateIndex(state, selectors.activeGameId(state));
   const archives = await getArchives(source[0], parsedMods);
-  const generated: ModsMap = {};
+  // entries parsed from the NMM configuration take precedence
+  const generated: ModsMap = { ...parsedMods };
   for (const archive of archives) {
-    const mod = await createModEntry(source[2], archive, existingDownloads);
+    const mod = await createModEntry(source[2], archive, duplicates, hashes);
     cb(null, mod.modFilename);
     generated[mod.modFilename] = mod;
   }
   return Promise.resolve(generated);
 }
 
+export function formatDuration(seconds: number): string {
+  const total = Math.ceil(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  } else if (minutes > 0) {
+    return `${minutes}m ${secs}s`;
+  }
+  return `${secs}s`;
+}
+
 export function getLocalAssetUrl(fileName: string) {
   return pathToFileURL(path.join(__dirname, fileName)).href;
 }
@@ -1,7 +1,38 @@
-import { IModEntry } from '../types/nmmEntries';
+import { IJournalRule } from '../types/journal';
+import { IModEntry, INMMProfile } from '../types/nmmEntries';
+import { IConflictRule } from './conflicts';
+import { parseInstallDate } from './installLog';
+import { parseNexusFileName } from './nexusFileName';
 
 import Promise from 'bluebird';
-import { actions, types, util } from 'vortex-api';
+import { generate as shortid } from 'shortid';
+import { actions, log, types, util } from 'vortex-api';
+
+// the download modInfo key the mod attributes from NMM are kept under until the mod is
+//  installed
+const NMM_ATTRIBUTES = 'nmmAttributes';
+
+function nmmAttributes(modEntry: IModEntry): { [key: string]: any } {
+  const attributes: { [key: string]: any } = {
+    author: modEntry.author,
+    description: modEntry.description,
+    homepage: modEntry.website,
+  };
+  if (!!modEntry.customName && (modEntry.customName !== modEntry.modName)) {
+    // the user renamed the mod in NMM
+    attributes.customFileName = modEntry.customName;
+  }
+  const installTime = parseInstallDate(modEntry.installDate);
+  if (installTime !== undefined) {
+    attributes.installTime = installTime.toISOString();
+  }
+  return Object.keys(attributes)
+    .filter(key => !!attributes[key])
+    .reduce((prev, key) => {
+      prev[key] = attributes[key];
+      return prev;
+    }, {});
+}
 
 export function addMetaData(gameID: string, modEntries: IModEntry[],
                             api: types.IExtensionApi) {
@@ -11,6 +42,20 @@ export function addMetaData(gameID: string, modEntries: IModEntry[],
         actions.setDownloadModInfo(modEntry.archiveId, 'custom.category', modEntry.categoryId));
     }
 
+    // Vortex doesn't carry these over to the mod, applyNMMAttributes does once it's installed
+    const attributes = nmmAttributes(modEntry);
+    if (Object.keys(attributes).length > 0) {
+      api.store.dispatch(
+        actions.setDownloadModInfo(modEntry.archiveId, NMM_ATTRIBUTES, attributes));
+    }
+
+    let fileName = parseNexusFileName(modEntry.modFilename);
+    if ((fileName !== undefined) && !!modEntry.nexusId
+        && (fileName.modId !== modEntry.nexusId.toString())) {
+      // the archive was renamed, the rest of the name can't be trusted either
+      fileName = undefined;
+    }
+
     if (!!modEntry.nexusId) {
       api.store.dispatch(
         actions.setDownloadModInfo(modEntry.archiveId, 'source', 'nexus'));
@@ -19,19 +64,34 @@ export function addMetaData(gameID: string, modEntries: IModEntry[],
       api.store.dispatch(
         actions.setDownloadModInfo(modEntry.archiveId, 'nexus.ids.gameId', gameID));
 
-      if (!!modEntry.modVersion) {
+      const version = modEntry.modVersion
+        || ((fileName !== undefined) ? fileName.version : undefined);
+      if (!!version) {
         api.store.dispatch(
-          actions.setDownloadModInfo(modEntry.archiveId, 'version', modEntry.modVersion));
+          actions.setDownloadModInfo(modEntry.archiveId, 'version', version));
       }
       api.store.dispatch(
         actions.setDownloadModInfo(modEntry.archiveId, 'game', gameID));
       api.store.dispatch(
         actions.setDownloadModInfo(modEntry.archiveId, 'name', modEntry.modName));
-    } else {
+    } else if (fileName !== undefined) {
       // NMM did not store a modId for this mod. This is a valid
       //  case when a mod has been manually added to NMM.
-      //  We're going to try and retrieve the nexus id from the file name
-      //  if possible.
+      //  The file name of archives downloaded from Nexus tells us
+      //  the mod id and version.
+      api.store.dispatch(
+        actions.setDownloadModInfo(modEntry.archiveId, 'source', 'nexus'));
+      api.store.dispatch(
+        actions.setDownloadModInfo(modEntry.archiveId, 'nexus.ids.modId', fileName.modId));
+      api.store.dispatch(
+        actions.setDownloadModInfo(modEntry.archiveId, 'nexus.ids.gameId', gameID));
+      api.store.dispatch(
+        actions.setDownloadModInfo(modEntry.archiveId, 'version', fileName.version));
+      api.store.dispatch(
+        actions.setDownloadModInfo(modEntry.archiveId, 'game', gameID));
+    } else {
+      // Not even the file name follows the Nexus pattern, the
+      //  mod id may still be in there.
       const match = modEntry.modFilename.match(/-([0-9]+)-/);
       if (match !== null) {
         api.store.dispatch(
@@ -40,5 +100,123 @@ export function addMetaData(gameID: string, modEntries: IModEntry[],
           actions.setDownloadModInfo(modEntry.archiveId, 'nexus.ids.modId', match[1]));
       }
     }
+
+    // NMM's download id is the id of the file on Nexus
+    if (Number.isInteger(modEntry.downloadId) && (modEntry.downloadId > 0)) {
+      api.store.dispatch(
+        actions.setDownloadModInfo(modEntry.archiveId, 'nexus.ids.fileId', modEntry.downloadId));
+    }
+
+    if (fileName !== undefined) {
+      api.store.dispatch(actions.setDownloadModInfo(modEntry.archiveId,
+        'nexus.fileInfo.uploaded_timestamp', fileName.uploadTime));
+    }
   });
 }
+
+/**
+ * set the attributes NMM knew about on a mod installed from an imported archive. Has to
+ * happen after the installation as that sets the install time of the mod
+ */
+export function applyNMMAttributes(api: types.IExtensionApi, gameId: string,
+                                   archiveId: string, modId: string) {
+  const state: types.IState = api.store.getState();
+  const attributes = util.getSafe(state,
+    ['persistent', 'downloads', 'files', archiveId, 'modInfo', NMM_ATTRIBUTES], undefined);
+  if ((attributes === undefined)
+      || (util.getSafe(state, ['persistent', 'mods', gameId, modId], undefined) === undefined)) {
+    return;
+  }
+  const { installTime, ...rest } = attributes;
+  api.store.dispatch(actions.setModAttributes(gameId, modId, (installTime !== undefined)
+    ? { ...rest, installTime: new Date(installTime) }
+    : rest));
+}
+
+// archive file name (lower case) -> id of the mod installed from it
+function getInstalledModIds(gameId: string,
+                            api: types.IExtensionApi): { [fileName: string]: string } {
+  const state: types.IState = api.store.getState();
+  const downloads = util.getSafe(state, ['persistent', 'downloads', 'files'], {});
+  const mods = util.getSafe(state, ['persistent', 'mods', gameId], {});
+
+  return Object.keys(mods).reduce((prev, modId) => {
+    const download = downloads[mods[modId].archiveId];
+    if ((download !== undefined) && (download.localPath !== undefined)) {
+      prev[download.localPath.toLowerCase()] = modId;
+    }
+    return prev;
+  }, {});
+}
+
+/**
+ * turn the file conflict resolutions from NMM into "load after" rules on the
+ * installed mods, so Vortex doesn't report them as unresolved conflicts.
+ * Returns the rules that were added
+ */
+export function addConflictRules(gameId: string, modEntries: IModEntry[],
+                                 rules: IConflictRule[],
+                                 api: types.IExtensionApi): IJournalRule[] {
+  const modIds = getInstalledModIds(gameId, api);
+  const md5s = modEntries.reduce((prev, modEntry) => {
+    prev[modEntry.modFilename] = modEntry.archiveMD5;
+    return prev;
+  }, {});
+
+  const added: IJournalRule[] = [];
+  rules.forEach(rule => {
+    const winnerId = modIds[rule.winner.toLowerCase()];
+    const loserId = modIds[rule.loser.toLowerCase()];
+    if ((winnerId === undefined) || (loserId === undefined)) {
+      // one of the mods wasn't installed
+      return;
+    }
+    const reference: types.IModReference = { id: loserId };
+    if (!!md5s[rule.loser]) {
+      reference.fileMD5 = md5s[rule.loser];
+    }
+    api.store.dispatch(actions.addModRule(gameId, winnerId, { type: 'after', reference }));
+    added.push({ modId: winnerId, rule: { type: 'after', reference } });
+  });
+  return added;
+}
+
+/**
+ * create a Vortex profile for each of the NMM profiles, enabling the installed
+ * mods that were imported from the archives enabled in NMM. Profiles that would
+ * end up without any mods are skipped. Returns the ids of the created profiles
+ */
+export function importProfiles(gameId: string, profiles: INMMProfile[],
+                               activeProfile: string, api: types.IExtensionApi): string[] {
+  const modIds = getInstalledModIds(gameId, api);
+
+  const created: string[] = [];
+  let nextProfile: string;
+  profiles.forEach(profile => {
+    const enabled = profile.modFilenames
+      .map(fileName => modIds[fileName.toLowerCase()])
+      .filter(modId => modId !== undefined);
+    if (enabled.length === 0) {
+      log('info', 'None of the mods of the NMM profile were installed', profile.name);
+      return;
+    }
+    const profileId = shortid();
+    api.store.dispatch(actions.setProfile({
+      id: profileId,
+      gameId,
+      name: `${profile.name} (NMM)`,
+      modState: {},
+      lastActivated: 0,
+    }));
+    enabled.forEach(modId => api.store.dispatch(actions.setModEnabled(profileId, modId, true)));
+    created.push(profileId);
+    if (profile.id === activeProfile) {
+      nextProfile = profileId;
+    }
+  });
+
+  if (nextProfile !== undefined) {
+    api.store.dispatch(actions.setNextProfile(nextProfile));
+  }
+  return created;
+}
@@ -0,0 +1,79 @@
+import Promise from 'bluebird';
+import * as os from 'os';
+import * as path from 'path';
+import { fs } from 'vortex-api';
+
+// Where Steam keeps the Proton prefixes, one per game (app id)
+const STEAM_LIBRARIES = [
+  path.join('.steam', 'steam'),
+  path.join('.local', 'share', 'Steam'),
+  path.join('.var', 'app', 'com.valvesoftware.Steam', '.local', 'share', 'Steam'),
+];
+
+function isPrefix(prefixPath: string): Promise<boolean> {
+  return fs.statAsync(path.join(prefixPath, 'drive_c'))
+    .then(stats => stats.isDirectory())
+    .catch(() => false);
+}
+
+function protonPrefixes(): Promise<string[]> {
+  return Promise.map(STEAM_LIBRARIES, library => {
+    const compatPath = path.join(os.homedir(), library, 'steamapps', 'compatdata');
+    return fs.readdirAsync(compatPath)
+      .then((appIds: string[]) => appIds.map(appId => path.join(compatPath, appId, 'pfx')))
+      .catch(() => []);
+  })
+  .then(result => [].concat(...result));
+}
+
+/**
+ * list the wine/proton prefixes on this system, the configured ones as well as the
+ * default prefix and those created by Steam
+ */
+export function findWinePrefixes(configured: string[]): Promise<string[]> {
+  if (process.platform === 'win32') {
+    return Promise.resolve([]);
+  }
+
+  const candidates = [].concat(
+    configured,
+    process.env.WINEPREFIX || [],
+    path.join(os.homedir(), '.wine'));
+
+  return protonPrefixes()
+    .then(proton => Array.from(new Set<string>([].concat(candidates, proton)
+      .map(prefix => path.resolve(prefix)))))
+    .filter((prefix: string) => isPrefix(prefix));
+}
+
+/**
+ * convert a windows path as used inside the prefix into the path on the host
+ */
+export function toHostPath(prefixPath: string, winPath: string): string {
+  if ((winPath === undefined) || (winPath.length === 0)) {
+    return winPath;
+  }
+  const match = winPath.match(/^([a-zA-Z]):[\\/]?(.*)$/);
+  if (match === null) {
+    // not an absolute windows path
+    return winPath;
+  }
+  const rest = match[2].split(/[\\/]+/).filter(seg => seg.length > 0);
+  // dosdevices contains a link for every drive letter the prefix knows
+  return path.join(prefixPath, 'dosdevices', `${match[1].toLowerCase()}:`, ...rest);
+}
+
+/**
+ * list the folders inside the prefix NMM would have used as its LOCALAPPDATA,
+ * one per user
+ */
+export function getLocalAppDataPaths(prefixPath: string): Promise<string[]> {
+  const usersPath = path.join(prefixPath, 'drive_c', 'users');
+  return fs.readdirAsync(usersPath)
+    .then((users: string[]) => [].concat(...users.map(user => [
+      path.join(usersPath, user, 'AppData', 'Local'),
+      // windows xp layout, still used by older prefixes
+      path.join(usersPath, user, 'Local Settings', 'Application Data'),
+    ])))
+    .catch(() => []);
+}
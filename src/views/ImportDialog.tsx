@@ -1,16 +1,38 @@
-import { setImportStep } from '../actions/session';
+import { selectImportFolder, setImportStep } from '../actions/session';
+import { addWinePrefix, setCategoryMappings, setManualFolder } from '../actions/settings';
 
 import { ModsCapacityMap, ICapacityInfo } from '../types/capacityTypes';
-import { IModEntry, ModsMap, ParseError, ProgressCB } from '../types/nmmEntries';
-import { getCategories } from '../util/categories';
-import findInstances from '../util/findInstances';
-import importArchives from '../util/import';
-import parseNMMConfigFile from '../util/nmmVirtualConfigParser';
-
+import { CategoryMappingMap, ICategoryMapping, ICategoryRow,
+         IModCategory } from '../types/categoryMapping';
+import { IImportResult } from '../types/importApi';
+import { IJournalState } from '../types/journal';
+import { ILoadOrderEntry, LoadOrderMode } from '../types/loadOrder';
+import { IModEntry, INMMProfile, ProgressCB } from '../types/nmmEntries';
+import { ITraceEntry } from '../types/trace';
+import { ITransferProgress, TRANSFER_STRATEGIES, TransferStrategy } from '../types/transferTypes';
+import { IUnmanagedFile, UnmanagedFilesMap } from '../types/unmanagedFiles';
+import { countCategoryUsage, getCategories } from '../util/categories';
+import { buildCategoryRows } from '../util/categoryMapping';
+import { findConflictRules } from '../util/conflicts';
+import findProfiles from '../util/findProfiles';
+import HashCache from '../util/HashCache';
+import { getModCategory } from '../util/import';
+import { buildImportPlan, exportPlan } from '../util/importPlan';
+import { addSource, findNMMInstances, finishImport, getModEntries, retryFailed,
+         runImport } from '../util/importApi';
+import ImportJournal from '../util/ImportJournal';
+import { readNMMLoadOrder } from '../util/loadOrder';
+import { sourceFromFolder } from '../util/manualSource';
+import { isSameVolume, requiresDiskSpace } from '../util/modFileImport';
+import { createSupportBundle } from '../util/supportBundle';
 import TraceImport from '../util/TraceImport';
+import { findUnmanagedFiles, getUnmanagedModName } from '../util/unmanagedFiles';
+import LogViewer from './LogViewer';
 
 import {
-  FILENAME, LOCAL, MOD_ID, MOD_NAME, MOD_VERSION,
+  CATEGORY_MODS, CATEGORY_NAME, FILENAME, LOCAL, MOD_ID, MOD_NAME, MOD_VERSION,
+  RESULT_ARCHIVE_ID, RESULT_ERROR, RESULT_NAME, RESULT_SIZE, RESULT_STATUS,
+  UNMANAGED_PATH, UNMANAGED_SIZE,
 } from '../importedModAttributes';
 
 import * as React from 'react';
@@ -32,26 +54,34 @@ import Promise from 'bluebird';
 
 import {
   calculateModsCapacity,
-  generateModEntries,
+  formatDuration,
   getLocalAssetUrl,
   getCapacityInformation,
   getCategoriesFilePath,
   getVirtualConfigFilePath,
-  testAccess,
   validate,
 } from '../util/util';
 
-type Step = 'start' | 'setup' | 'working' | 'review';
+type Step = 'start' | 'setup' | 'categories' | 'working' | 'review';
 
 interface IConnectedProps {
   gameId: string;
   downloadPath: string;
   installPath: string;
   importStep?: Step;
+  // the user is currently picking an NMM folder
+  selectingFolder: boolean;
+  vortexCategories: { [id: string]: types.ICategory };
+  // category mappings chosen in earlier imports
+  categoryMappings: CategoryMappingMap;
 }
 
 interface IActionProps {
   onSetStep: (newState: Step) => void;
+  onAddWinePrefix: (prefixPath: string) => void;
+  onSetManualFolder: (gameId: string, folderPath: string) => void;
+  onSelectFolder: (active: boolean) => void;
+  onSetCategoryMappings: (gameId: string, mappings: CategoryMappingMap) => void;
 }
 
 type IProps = IConnectedProps & IActionProps;
@@ -60,12 +90,14 @@ interface IComponentState {
   busy: boolean;
   sources: string[][];
   selectedSource: string[];
+  // why the folder the user picked manually can't be used
+  browseError: string;
   modsToImport: { [id: string]: IModEntry };
-  parsedMods: { [id: string]: IModEntry };
   error: string;
   importEnabled: { [id: string]: boolean };
   counter: number;
-  progress: { mod: string, pos: number };
+  scanningMod: string;
+  transferProgress: ITransferProgress;
   failedImports: string[];
 
   // Dictates whether we can start the import process.
@@ -79,9 +111,47 @@ interface IComponentState {
   capacityInformation: ICapacityInfo;
   modsCapacity: ModsCapacityMap;
 
+  // How archives get into the download folder and whether
+  //  the NMM mods folder is on the same volume as the download folder.
+  transferStrategy: TransferStrategy;
+  sameVolume: boolean;
+  concurrency: number;
+
   // Array of successfully imported mod entries.
   successfullyImported: IModEntry[];
 
+  // Outcome of the import, including the FOMOD options restored
+  //  from NMM's install log.
+  importResult: IImportResult;
+  // The structured trace of the import, for the log viewer.
+  traceEntries: ITraceEntry[];
+  // The failed archives are being imported again.
+  retrying: boolean;
+  // The imported mods are being installed.
+  finishing: boolean;
+
+  // Plugin load order as NMM left it, captured before the user disables
+  //  the mods in NMM.
+  loadOrder: ILoadOrderEntry[];
+  restoreLoadOrder: boolean;
+  loadOrderMode: LoadOrderMode;
+
+  // Files in the data folder NMM doesn't know about.
+  unmanagedFiles: UnmanagedFilesMap;
+
+  // NMM categories and what they become in Vortex, keyed by category name.
+  categoryRows: { [name: string]: ICategoryRow };
+  // The NMM category of each mod, keyed by archive name.
+  modCategories: { [modFilename: string]: IModCategory };
+
+  // NMM mod profiles and which of them to recreate in Vortex.
+  nmmProfiles: INMMProfile[];
+  profilesEnabled: { [id: string]: boolean };
+  activeProfile: string;
+
+  // An earlier import for this game that never finished.
+  unfinishedImport: IJournalState;
+
   // Dictates whether the installation process
   //  should be kicked off immediately after the user
   //  has closed the review page.
@@ -89,11 +159,18 @@ interface IComponentState {
 }
 
 class ImportDialog extends ComponentEx<IProps, IComponentState> {
-  private static STEPS: Step[] = ['start', 'setup', 'working', 'review'];
+  private static STEPS: Step[] = ['start', 'setup', 'categories', 'working', 'review'];
 
   private mStatus: types.ITableAttribute;
-  private mTrace: TraceImport;
+  private mCategory: types.ITableAttribute<IModEntry>;
+  private mCategorySuggestion: types.ITableAttribute<ICategoryRow>;
+  private mCategoryMapping: types.ITableAttribute<ICategoryRow>;
+  private mUnmanagedGroup: types.ITableAttribute;
+  // session of an unfinished import the user chose to resume
+  private mResumeSession: string;
+  private mHashes: HashCache = new HashCache();
   private actions: ITableRowAction[];
+  private unmanagedActions: ITableRowAction[];
 
   constructor(props: IProps) {
     super(props);
@@ -101,14 +178,15 @@ class ImportDialog extends ComponentEx<IProps, IComponentState> {
     this.initState({
       busy: false,
       sources: undefined,
+      browseError: undefined,
       modsToImport: undefined,
-      parsedMods: undefined,
       selectedSource: [],
       error: undefined,
       importEnabled: {},
       modsCapacity: {},
       counter: 0,
-      progress: undefined,
+      scanningMod: undefined,
+      transferProgress: undefined,
       failedImports: [],
       nmmModsEnabled: false,
       nmmRunning: false,
@@ -121,8 +199,26 @@ class ImportDialog extends ComponentEx<IProps, IComponentState> {
         hasCalculationErrors: false,
       },
 
+      transferStrategy: 'copy',
+      sameVolume: false,
+      concurrency: 2,
+
       installModsOnFinish: false,
       successfullyImported: [],
+      importResult: undefined,
+      traceEntries: [],
+      retrying: false,
+      finishing: false,
+      loadOrder: [],
+      restoreLoadOrder: false,
+      loadOrderMode: 'rules',
+      unmanagedFiles: undefined,
+      categoryRows: undefined,
+      modCategories: {},
+      nmmProfiles: [],
+      profilesEnabled: {},
+      activeProfile: undefined,
+      unfinishedImport: undefined,
     });
 
     this.actions = [
@@ -167,6 +263,108 @@ class ImportDialog extends ComponentEx<IProps, IComponentState> {
         },
       },
     };
+
+    this.unmanagedActions = [
+      {
+        icon: 'checkbox-checked',
+        title: 'Import into existing mod',
+        action: (entries: string[]) => this.setUnmanagedGroup(entries, 1),
+        singleRowAction: false,
+      },
+      {
+        icon: 'add',
+        title: 'Import into new mod',
+        action: (entries: string[]) => this.setUnmanagedGroup(entries, this.nextUnmanagedGroup()),
+        singleRowAction: false,
+      },
+      {
+        icon: 'checkbox-unchecked',
+        title: 'Leave alone',
+        action: (entries: string[]) => this.setUnmanagedGroup(entries, 0),
+        singleRowAction: false,
+      },
+    ];
+
+    this.mUnmanagedGroup = {
+      id: 'group',
+      name: 'Import into',
+      description: 'The mod this file will be imported into',
+      icon: 'level-up',
+      calc: (file: IUnmanagedFile) => (file.group > 0)
+        ? getUnmanagedModName(file.group)
+        : 'Leave alone',
+      placement: 'both',
+      isToggleable: false,
+      isSortable: true,
+      isVolatile: true,
+      edit: {
+        inline: true,
+        choices: () => {
+          const groups = [...Array(this.nextUnmanagedGroup()).keys()].slice(1);
+          return [
+            { key: '0', text: 'Leave alone' },
+            ...groups.map(group => ({ key: group.toString(), text: getUnmanagedModName(group) })),
+            { key: this.nextUnmanagedGroup().toString(), text: 'New mod' },
+          ];
+        },
+        onChangeValue: (file: IUnmanagedFile, value: any) => {
+          this.setUnmanagedGroup([file.relPath], (value === undefined)
+            ? ((file.group > 0) ? 0 : 1)
+            : parseInt(value, 10));
+        },
+      },
+    };
+
+    this.mCategory = {
+      id: 'category',
+      name: 'Category',
+      description: 'The NMM category of the mod and how it is imported',
+      icon: 'sitemap',
+      calc: (mod: IModEntry) => this.categoryLabel(this.state.modCategories[mod.modFilename]),
+      placement: 'table',
+      isToggleable: true,
+      isSortable: true,
+      isVolatile: true,
+      edit: {},
+    };
+
+    this.mCategorySuggestion = {
+      id: 'suggestion',
+      name: 'Closest Vortex Category',
+      description: 'The Vortex category with the most similar name',
+      icon: 'search',
+      calc: (row: ICategoryRow) => this.vortexCategoryName(row.suggestion) || '',
+      placement: 'table',
+      isToggleable: true,
+      isSortable: true,
+      edit: {},
+    };
+
+    this.mCategoryMapping = {
+      id: 'mapping',
+      name: 'Import as',
+      description: 'What the category becomes in Vortex',
+      icon: 'level-up',
+      calc: (row: ICategoryRow) => this.mappingLabel(row.mapping),
+      placement: 'both',
+      isToggleable: false,
+      isSortable: true,
+      isVolatile: true,
+      edit: {
+        inline: true,
+        choices: () => this.mappingChoices(),
+        onChangeValue: (row: ICategoryRow, value: any) => {
+          if (value === undefined) {
+            return;
+          }
+          const [action, ...target] = value.split(':');
+          this.nextState.categoryRows[row.name].mapping = (action === 'create')
+            ? { action }
+            : { action, target: target.join(':') };
+          ++this.nextState.counter;
+        },
+      },
+    };
   }
 
   public UNSAFE_componentWillReceiveProps(newProps: IProps) {
@@ -176,10 +374,13 @@ class ImportDialog extends ComponentEx<IProps, IComponentState> {
         this.start();
       } else if (newProps.importStep === 'setup') {
         this.setup();
+      } else if (newProps.importStep === 'categories') {
+        this.prepareCategories();
       } else if (newProps.importStep === 'working') {
         this.startImport();
       } else if (newProps.importStep === 'review') {
         this.nextState.successfullyImported = this.getSuccessfullyImported();
+        this.loadTrace();
       }
     }
   }
@@ -188,7 +389,7 @@ class ImportDialog extends ComponentEx<IProps, IComponentState> {
     const { t, importStep } = this.props;
     const { error, sources, capacityInformation } = this.state;
 
-    const canCancel = ((['start', 'setup'].indexOf(importStep) !== -1)
+    const canCancel = ((['start', 'setup', 'categories'].indexOf(importStep) !== -1)
       || ((importStep === 'working') && (!this.canImport()))
       || (error !== undefined));
     const nextLabel = ((sources !== undefined) && (sources.length > 0))
@@ -230,13 +431,14 @@ class ImportDialog extends ComponentEx<IProps, IComponentState> {
   // Reset all previously set data.
   private resetStateData() {
     this.nextState.sources = undefined;
+    this.nextState.browseError = undefined;
     this.nextState.modsToImport = undefined;
-    this.nextState.parsedMods = undefined;
     this.nextState.selectedSource = [];
     this.nextState.error = undefined;
     this.nextState.importEnabled = {};
     this.nextState.counter = 0;
-    this.nextState.progress = undefined;
+    this.nextState.scanningMod = undefined;
+    this.nextState.transferProgress = undefined;
     this.nextState.failedImports = [];
     this.nextState.capacityInformation = {
       rootPath: '',
@@ -244,9 +446,27 @@ class ImportDialog extends ComponentEx<IProps, IComponentState> {
       totalFreeBytes: 0,
       hasCalculationErrors: false,
     };
+    this.nextState.transferStrategy = 'copy';
+    this.nextState.sameVolume = false;
+    this.nextState.concurrency = 2;
     this.nextState.installModsOnFinish = false;
     this.nextState.autoSortEnabled = false;
     this.nextState.successfullyImported = [];
+    this.nextState.importResult = undefined;
+    this.nextState.traceEntries = [];
+    this.nextState.retrying = false;
+    this.nextState.finishing = false;
+    this.nextState.loadOrder = [];
+    this.nextState.restoreLoadOrder = false;
+    this.nextState.loadOrderMode = 'rules';
+    this.nextState.unmanagedFiles = undefined;
+    this.nextState.categoryRows = undefined;
+    this.nextState.modCategories = {};
+    this.nextState.nmmProfiles = [];
+    this.nextState.profilesEnabled = {};
+    this.nextState.activeProfile = undefined;
+    this.nextState.unfinishedImport = undefined;
+    this.mResumeSession = undefined;
   }
 
   private canImport() {
@@ -282,6 +502,21 @@ class ImportDialog extends ComponentEx<IProps, IComponentState> {
     this.onGroupAction(entries, false);
   }
 
+  private nextUnmanagedGroup(): number {
+    const { unmanagedFiles } = this.nextState;
+    return Object.keys(unmanagedFiles || {})
+      .reduce((prev, key) => Math.max(prev, unmanagedFiles[key].group), 0) + 1;
+  }
+
+  private setUnmanagedGroup(entries: string[], group: number) {
+    entries.forEach(relPath => {
+      if (this.nextState.unmanagedFiles[relPath] !== undefined) {
+        this.nextState.unmanagedFiles[relPath].group = group;
+      }
+    });
+    ++this.nextState.counter;
+  }
+
   private recalculate() {
     const { modsToImport } = this.state;
     const validCalcState = ((modsToImport !== undefined)
@@ -305,11 +540,10 @@ class ImportDialog extends ComponentEx<IProps, IComponentState> {
   }
 
   private onStartUp(): Promise<void> {
+    const { t, gameId } = this.props;
     const { selectedSource } = this.state;
-    const { parsedMods } = this.nextState;
-    if (selectedSource === undefined || parsedMods === undefined) {
-      // happens if there are no NMM mods for this game, or if we were
-      //  unable to find source instances.
+    if (selectedSource === undefined) {
+      // happens if we were unable to find source instances.
       return Promise.resolve();
     }
 
@@ -317,15 +551,39 @@ class ImportDialog extends ComponentEx<IProps, IComponentState> {
       if (err) {
         this.nextState.capacityInformation.hasCalculationErrors = true;
       }
-      this.nextState.progress = { mod, pos: 0 };
+      this.nextState.scanningMod = mod;
     };
-    return this.populateModsTable(progCB)
+    return getModEntries(this.context.api, gameId, selectedSource, this.mHashes, progCB)
       .then(mods => {
         this.nextState.modsToImport = mods;
         const modList = Object.keys(mods)
           .map(id => mods[id]);
-      return this.getModsCapacity(modList, progCB);
-    });
+        return this.getModsCapacity(modList, progCB)
+          .then(() => this.getModCategories(modList));
+      })
+      .catch(err => {
+        log('error', 'Failed to create mod entries', err);
+        this.nextState.error = (err.code === 'EPERM')
+          ? t('"{{permFile}}" is access protected. Please ensure your account has '
+            + 'full read/write permissions to your game\'s NMM mods folder and try again.',
+            { replace: { permFile: err.path } })
+          : err.message;
+      });
+  }
+
+  private getModCategories(modList: IModEntry[]): Promise<void> {
+    const { vortexCategories } = this.props;
+    const modsPath = this.state.selectedSource[2];
+    return getCategories(getCategoriesFilePath(modsPath))
+      .catch(() => ({}))
+      .then(nmmCategories => Promise.map(modList, mod =>
+        getModCategory(modsPath, mod, nmmCategories, vortexCategories)
+          .then(category => {
+            this.nextState.modCategories[mod.modFilename] = category;
+          })))
+      .then(() => {
+        ++this.nextState.counter;
+      });
   }
 
   private getModsCapacity(modList: IModEntry[], cb: ProgressCB): Promise<void> {
@@ -337,7 +595,10 @@ class ImportDialog extends ComponentEx<IProps, IComponentState> {
   }
 
   private calcArchiveFiles(): number {
-    const { modsCapacity, modsToImport } = this.nextState;
+    const { modsCapacity, modsToImport, sameVolume, transferStrategy } = this.nextState;
+    if (!requiresDiskSpace(transferStrategy, sameVolume)) {
+      return 0;
+    }
     return Object.keys(modsCapacity)
       .filter(id => this.modWillBeEnabled(modsToImport[id]))
       .map(id => modsCapacity[id])
@@ -347,17 +608,10 @@ class ImportDialog extends ComponentEx<IProps, IComponentState> {
   // To be used after the import process finished. Will return
   //  an array containing successfully imported archives.
   private getSuccessfullyImported(): IModEntry[] {
-    const { failedImports, modsToImport } = this.state;
-    const enabledMods = Object.keys(modsToImport ?? [])
-      .map(id => modsToImport[id])
-      .filter(mod => this.isModEnabled(mod));
-
-    if (failedImports === undefined || failedImports.length === 0) {
-      return enabledMods;
-    }
-
-    return enabledMods.filter(mod =>
-      failedImports.find(fail => fail === mod.modName) === undefined);
+    const { importResult } = this.nextState;
+    return (importResult !== undefined)
+      ? importResult.imported
+      : [];
   }
 
   private renderCapacityInfo(instance: ICapacityInfo): JSX.Element {
@@ -386,7 +640,7 @@ class ImportDialog extends ComponentEx<IProps, IComponentState> {
 
   private isNextDisabled = () => {
     const { importStep } = this.props;
-    const { error, modsToImport, capacityInformation } = this.state;
+    const { error, finishing, modsToImport, capacityInformation } = this.state;
 
     const enabled = (modsToImport !== undefined)
       ? Object.keys(modsToImport).filter(id => this.isModEnabled(modsToImport[id]))
@@ -396,9 +650,11 @@ class ImportDialog extends ComponentEx<IProps, IComponentState> {
     const totalFree = capacityInformation.totalFreeBytes;
     const hasSpace = capacityInformation.totalNeededBytes > totalFree;
     return (error !== undefined)
+      || finishing
       || ((importStep === 'setup') && (modsToImport === undefined))
       || ((importStep === 'setup') && (enabled.length === 0))
-      || ((importStep === 'setup') && (hasSpace));
+      || ((importStep === 'setup') && (hasSpace))
+      || ((importStep === 'categories') && (this.state.categoryRows === undefined));
   }
 
   private renderCurrentStep(): JSX.Element {
@@ -418,6 +674,12 @@ class ImportDialog extends ComponentEx<IProps, IComponentState> {
           title={t('Setup')}
           description={t('Select Mods to import')}
         />
+        <Steps.Step
+          key='categories'
+          stepId='categories'
+          title={t('Categories')}
+          description={t('Map NMM categories')}
+        />
         <Steps.Step
           key='working'
           stepId='working'
@@ -449,6 +711,7 @@ class ImportDialog extends ComponentEx<IProps, IComponentState> {
     switch (state) {
       case 'start': return this.renderStart();
       case 'setup': return this.renderSelectMods();
+      case 'categories': return this.renderCategories();
       case 'working': return (this.canImport()) ? this.renderWorking() : this.renderValidation();
       case 'review': return this.renderReview();
       default: return null;
@@ -457,29 +720,34 @@ class ImportDialog extends ComponentEx<IProps, IComponentState> {
 
   private renderStart(): JSX.Element {
     const { t } = this.props;
-    const { sources, selectedSource } = this.state;
+    const { sources, selectedSource, transferStrategy } = this.state;
 
     const positives: string[] = [
-      'Copy over all archives found inside the selected NMM installation.',
+      'Copy, move or link all archives found inside the selected NMM installation.',
 
       'Provide the option to install imported archives at the end of the '
       + 'import process.',
 
-      'Leave your existing NMM installation disabled, but functionally intact.',
-    ];
+      'Reuse the FOMOD options you picked in NMM when installing imported archives.',
 
-    const negatives: string[] = [
-      'Import any mod files in your data folder that are not managed by NMM.',
+      'Provide the option to restore your NMM plugin load order once the imported '
+      + 'mods are installed.',
 
-      'Import your FOMOD options.',
+      'Provide the option to turn files in your data folder that are not managed '
+      + 'by NMM into mods.',
 
-      'Preserve your plugin load order, as plugins will be rearranged according '
-      + 'to LOOT rules once enabled.',
+      'Provide the option to recreate your NMM mod profiles in Vortex.',
+
+      (transferStrategy === 'move')
+        ? 'Leave your existing NMM installation disabled, the imported archives are moved '
+          + 'out of its mods folder.'
+        : 'Leave your existing NMM installation disabled, but functionally intact, unless '
+          + 'you choose to move the archives.',
     ];
 
-    const renderItem = (text: string, idx: number, positive: boolean): JSX.Element => (
+    const renderItem = (text: string, idx: number): JSX.Element => (
       <div key={idx} className='import-description-item'>
-        <Icon name={positive ? 'feedback-success' : 'feedback-error'} />
+        <Icon name='feedback-success' />
         <p>{t(text)}</p>
       </div>
     );
@@ -488,16 +756,7 @@ class ImportDialog extends ComponentEx<IProps, IComponentState> {
       <div className='import-description-column import-description-positive'>
         <h4>{t('The import tool will:')}</h4>
         <span>
-          {positives.map((positive, idx) => renderItem(positive, idx, true))}
-        </span>
-      </div>
-    );
-
-    const renderNegatives = (): JSX.Element => (
-      <div className='import-description-column import-description-negative'>
-        <h4>{t('The import tool won’t:')}</h4>
-        <span>
-          {negatives.map((negative, idx) => renderItem(negative, idx, false))}
+          {positives.map((positive, idx) => renderItem(positive, idx))}
         </span>
       </div>
     );
@@ -512,8 +771,8 @@ class ImportDialog extends ComponentEx<IProps, IComponentState> {
         </div>
         <div className='start-info'>
           {renderPositives()}
-          {renderNegatives()}
         </div>
+        {this.renderUnfinishedImport()}
         {sources === undefined
           ? <Spinner />
           : sources.length === 0
@@ -524,6 +783,62 @@ class ImportDialog extends ComponentEx<IProps, IComponentState> {
     );
   }
 
+  private renderUnfinishedImport(): JSX.Element {
+    const { t } = this.props;
+    const { unfinishedImport } = this.state;
+    if (unfinishedImport === undefined) {
+      return null;
+    }
+
+    return (
+      <Alert bsStyle='warning'>
+        <p>
+          {t('An import started on {{date}} did not finish, {{done}} of {{total}} archives '
+            + 'were imported. You can resume it with the same selection and categories.', {
+              replace: {
+                date: new Date(unfinishedImport.startTime).toLocaleString(),
+                done: unfinishedImport.registered.length,
+                total: unfinishedImport.plan.mods.length,
+              },
+            })}
+        </p>
+        <Button onClick={this.resumeImport}>{t('Resume')}</Button>
+        {' '}
+        <Button onClick={this.discardImport}>{t('Discard')}</Button>
+      </Alert>
+    );
+  }
+
+  private resumeImport = () => {
+    const { unfinishedImport } = this.state;
+    const { plan } = unfinishedImport;
+    this.mResumeSession = unfinishedImport.sessionPath;
+    this.nextState.selectedSource = plan.source;
+    this.nextState.transferStrategy = plan.strategy;
+    this.nextState.modsToImport = plan.mods.reduce((prev, mod) => {
+      prev[mod.modFilename] = mod;
+      return prev;
+    }, {});
+    this.nextState.importEnabled = plan.mods.reduce((prev, mod) => {
+      prev[mod.modFilename] = true;
+      return prev;
+    }, {});
+    this.nextState.loadOrder = plan.loadOrder || [];
+    this.nextState.unfinishedImport = undefined;
+    this.props.onSetStep('working');
+  }
+
+  private discardImport = () => {
+    const { unfinishedImport } = this.state;
+    const journal = new ImportJournal(unfinishedImport.sessionPath, unfinishedImport);
+    journal.open()
+      .then(() => journal.finish())
+      .catch(err => {
+        log('warn', 'Failed to discard unfinished NMM import', err.message);
+      });
+    this.nextState.unfinishedImport = undefined;
+  }
+
   private renderNoSources(): JSX.Element {
     const { t } = this.props;
 
@@ -531,12 +846,38 @@ class ImportDialog extends ComponentEx<IProps, IComponentState> {
       <span className='import-errors'>
         <Icon name='feedback-error' />
         {' '}
-        {t('No NMM install found with mods for this game. ' +
-          'Please note that only NMM >= 0.63 is supported.')}
+        {t('No NMM install found with mods for this game.')}
+        <p>{t('If you know where NMM keeps its mods, you can select that folder instead.')}</p>
+        {this.renderBrowse()}
+        {this.renderAddWinePrefix()}
       </span>
     );
   }
 
+  private renderBrowse(): JSX.Element {
+    const { t, selectingFolder } = this.props;
+    const { browseError } = this.state;
+    return (
+      <div>
+        <Button disabled={selectingFolder} onClick={this.browseFolder}>
+          {t('Browse...')}
+        </Button>
+        {(browseError !== undefined)
+          ? <Alert bsStyle='warning'>{browseError}</Alert>
+          : null}
+      </div>
+    );
+  }
+
+  private renderAddWinePrefix(): JSX.Element {
+    const { t } = this.props;
+    return (process.platform !== 'win32') ? (
+      <div>
+        <Button onClick={this.addWinePrefix}>{t('Add Wine/Proton prefix...')}</Button>
+      </div>
+    ) : null;
+  }
+
   private renderSources(sources: string[][], selectedSource: string[]): JSX.Element {
     const { t } = this.props;
 
@@ -547,17 +888,28 @@ class ImportDialog extends ComponentEx<IProps, IComponentState> {
         <br />
         <SplitButton
           id='import-select-source'
-          title={selectedSource !== undefined ? selectedSource[0] || '' : ''}
+          title={selectedSource !== undefined ? this.sourceLabel(selectedSource) : ''}
           onSelect={this.selectSource}
         >
           {sources.map(this.renderSource)}
         </SplitButton>
+        {this.renderBrowse()}
+        {this.renderAddWinePrefix()}
       </div>
     );
   }
 
+  private sourceLabel(source: string[]): string {
+    const { t } = this.props;
+    if ((source[0] === undefined) || (source[4] === undefined)) {
+      return source[0] || '';
+    }
+    return t('{{path}} (Wine prefix: {{prefix}})',
+             { replace: { path: source[0], prefix: source[4] } });
+  }
+
   private renderSource = option => {
-    return <MenuItem key={option} eventKey={option}>{option[0]}</MenuItem>;
+    return <MenuItem key={option} eventKey={option}>{this.sourceLabel(option)}</MenuItem>;
   }
 
   private toggleInstallOnFinish = () => {
@@ -567,7 +919,7 @@ class ImportDialog extends ComponentEx<IProps, IComponentState> {
 
   private revalidate = () => {
     const { selectedSource } = this.state;
-    return validate(selectedSource[0])
+    return validate(selectedSource[0], selectedSource[2])
       .then(res => {
         this.nextState.nmmModsEnabled = res.nmmModsEnabled;
         this.nextState.nmmRunning = res.nmmRunning;
@@ -623,17 +975,48 @@ class ImportDialog extends ComponentEx<IProps, IComponentState> {
     return content;
   }
 
+  private dryRun = () => {
+    const { t, gameId } = this.props;
+    const { modsToImport, selectedSource, transferStrategy } = this.state;
+    const api = this.context.api;
+    const modList = Object.keys(modsToImport).map(id => modsToImport[id]);
+    buildImportPlan(api, gameId, selectedSource, modList,
+                    mod => this.isModEnabled(mod), transferStrategy, this.categoryMapping())
+      .then(plan => api.saveFile({
+        title: t('Export import plan'),
+        defaultPath: `nmm-import-plan-${gameId}.html`,
+        filters: [
+          { name: 'HTML report', extensions: ['html'] },
+          { name: 'CSV', extensions: ['csv'] },
+          { name: 'JSON', extensions: ['json'] },
+        ],
+      })
+        .then(filePath => (filePath === undefined)
+          ? Promise.resolve()
+          : exportPlan(plan, filePath)
+            .then(() => {
+              api.sendNotification({
+                type: 'success',
+                message: 'Import plan exported',
+                displayMS: 3000,
+              });
+            })))
+      .catch(err => {
+        api.showErrorNotification('Failed to export import plan', err, { allowReport: false });
+      });
+  }
+
   private renderSelectMods(): JSX.Element {
     const { t } = this.props;
-    const { counter, modsToImport, progress, capacityInformation } = this.state;
+    const { counter, modsToImport, scanningMod, capacityInformation } = this.state;
 
-    const calcProgress = (!!progress)
+    const calcProgress = (scanningMod !== undefined)
       ? (
         <span>
           <h3>
             {t('Calculating required disk space. Thank you for your patience.')}
           </h3>
-          {t('Scanning: {{mod}}', { replace: { mod: progress.mod } })}
+          {t('Scanning: {{mod}}', { replace: { mod: scanningMod } })}
         </span>
       )
       : (
@@ -658,17 +1041,21 @@ class ImportDialog extends ComponentEx<IProps, IComponentState> {
           dataId={counter}
           actions={this.actions}
           staticElements={[
-            this.mStatus, MOD_ID, MOD_NAME, MOD_VERSION, FILENAME, LOCAL]}
+            this.mStatus, MOD_ID, MOD_NAME, MOD_VERSION, FILENAME, this.mCategory, LOCAL]}
         />
       );
     const modNumberText = this.getModNumber();
     return (
       <div className='import-mods-selection'>
         {content}
+        {this.renderUnmanagedFiles()}
+        {this.renderProfiles()}
         {(modNumberText !== undefined)
           ? (
             <div>
               <h3>{t(`Importing: ${this.getModNumber()} mods`)}</h3>
+              <Button onClick={this.dryRun}>{t('Dry run...')}</Button>
+              {this.renderTransferStrategy()}
               {this.renderCapacityInfo(capacityInformation)}
             </div>
           )
@@ -677,14 +1064,261 @@ class ImportDialog extends ComponentEx<IProps, IComponentState> {
     );
   }
 
+  private selectTransferStrategy = (eventKey: any) => {
+    this.nextState.transferStrategy = eventKey;
+    this.recalculate();
+  }
+
+  private selectConcurrency = (eventKey: any) => {
+    this.nextState.concurrency = eventKey;
+  }
+
+  private renderTransferStrategy(): JSX.Element {
+    const { t } = this.props;
+    const { concurrency, sameVolume, transferStrategy } = this.state;
+
+    const labels: { [strategy: string]: string } = {
+      copy: t('Copy archives'),
+      move: t('Move archives'),
+      hardlink: t('Hard link archives'),
+      reflink: t('Copy-on-write (reflink) archives'),
+    };
+
+    const warnings: { [strategy: string]: string } = {
+      move: t('The archives will be removed from the NMM mods folder, NMM won\'t be '
+        + 'able to use them any more.'),
+      hardlink: sameVolume
+        ? t('Vortex and NMM will share the same archive files, modifying one modifies both.')
+        : t('Hard links require the NMM mods folder and the Vortex download folder to be on '
+          + 'the same drive, the archives will be copied instead.'),
+      reflink: t('Only some file systems support copy-on-write, Vortex will fall back to '
+        + 'copying the archives where it\'s not supported.'),
+    };
+
+    return (
+      <div className='import-transfer-strategy'>
+        {t('Transfer method:')}
+        {' '}
+        <SplitButton
+          id='import-select-strategy'
+          title={labels[transferStrategy]}
+          onSelect={this.selectTransferStrategy}
+        >
+          {TRANSFER_STRATEGIES.map(strategy => (
+            <MenuItem key={strategy} eventKey={strategy}>{labels[strategy]}</MenuItem>
+          ))}
+        </SplitButton>
+        {' '}
+        {t('Parallel transfers:')}
+        {' '}
+        <SplitButton
+          id='import-select-concurrency'
+          title={concurrency.toString()}
+          onSelect={this.selectConcurrency}
+        >
+          {[1, 2, 4, 8].map(count => (
+            <MenuItem key={count} eventKey={count}>{count}</MenuItem>
+          ))}
+        </SplitButton>
+        {(warnings[transferStrategy] !== undefined) ? (
+          <p className='import-archives-warning'>{warnings[transferStrategy]}</p>
+        ) : null}
+      </div>
+    );
+  }
+
+  private renderUnmanagedFiles(): JSX.Element {
+    const { t } = this.props;
+    const { counter, unmanagedFiles } = this.state;
+
+    if ((unmanagedFiles === undefined) || (Object.keys(unmanagedFiles).length === 0)) {
+      return null;
+    }
+
+    return (
+      <div className='import-unmanaged-files'>
+        <h4>{t('Files not managed by NMM')}</h4>
+        <p>
+          {t('These files were found in your game folder but weren\'t installed by NMM. '
+            + 'You can turn them into mods Vortex manages or leave them alone. The files '
+            + 'are copied into the new mods, the originals stay in place until Vortex '
+            + 'deploys the mods.')}
+        </p>
+        <Table
+          tableId='unmanaged-files'
+          data={unmanagedFiles}
+          dataId={counter}
+          actions={this.unmanagedActions}
+          staticElements={[this.mUnmanagedGroup, UNMANAGED_PATH, UNMANAGED_SIZE]}
+        />
+      </div>
+    );
+  }
+
+  private renderCategories(): JSX.Element {
+    const { t } = this.props;
+    const { categoryRows, counter } = this.state;
+
+    if (categoryRows === undefined) {
+      return (
+        <div className='status-container'>
+          <Icon name='spinner' />
+          <h3>{t('Looking up NMM categories..')}</h3>
+        </div>
+      );
+    }
+
+    if (Object.keys(categoryRows).length === 0) {
+      return (
+        <EmptyPlaceholder
+          icon='layout-list'
+          text={t('NMM has no categories to import')}
+        />
+      );
+    }
+
+    return (
+      <div className='import-categories'>
+        <p>
+          {t('Choose what the NMM categories become in Vortex: an existing category, '
+            + 'the same category as another NMM category or a new category below '
+            + '"Imported from NMM". Your choices are remembered for later imports.')}
+        </p>
+        <Table
+          tableId='nmm-categories'
+          data={categoryRows}
+          dataId={counter}
+          actions={[]}
+          staticElements={[
+            CATEGORY_NAME, CATEGORY_MODS, this.mCategorySuggestion, this.mCategoryMapping]}
+        />
+      </div>
+    );
+  }
+
+  private vortexCategoryName(categoryId: string): string {
+    const { vortexCategories } = this.props;
+    return ((categoryId !== undefined) && (vortexCategories[categoryId] !== undefined))
+      ? vortexCategories[categoryId].name
+      : undefined;
+  }
+
+  private categoryLabel(category: IModCategory): string {
+    const { t } = this.props;
+    if (category === undefined) {
+      return '';
+    }
+    return (category.vortexId !== undefined)
+      ? t('{{name}} (Nexus category)',
+        { replace: { name: this.vortexCategoryName(category.vortexId) } })
+      : t('{{name}} (custom NMM category)', { replace: { name: category.name } });
+  }
+
+  private mappingLabel(mapping: ICategoryMapping): string {
+    const { t } = this.props;
+    switch (mapping.action) {
+      case 'map': return t('Use "{{name}}"',
+        { replace: { name: this.vortexCategoryName(mapping.target) } });
+      case 'merge': return t('Merge into "{{name}}"', { replace: { name: mapping.target } });
+      default: return t('Create new category');
+    }
+  }
+
+  private mappingChoices(): Array<{ key: string, text: string }> {
+    const { vortexCategories } = this.props;
+    const { categoryRows } = this.state;
+    const vortexIds = Object.keys(vortexCategories)
+      .sort((lhs, rhs) => vortexCategories[lhs].name.localeCompare(vortexCategories[rhs].name));
+    return [
+      { key: 'create', text: this.mappingLabel({ action: 'create' }) },
+      ...vortexIds.map(id => ({
+        key: `map:${id}`, text: this.mappingLabel({ action: 'map', target: id }) })),
+      ...Object.keys(categoryRows || {}).sort().map(name => ({
+        key: `merge:${name}`, text: this.mappingLabel({ action: 'merge', target: name }) })),
+    ];
+  }
+
+  private toggleProfile = (profileId: string) => {
+    const { activeProfile, profilesEnabled } = this.state;
+    const enabled = !profilesEnabled[profileId];
+    this.nextState.profilesEnabled[profileId] = enabled;
+    if (!enabled && (activeProfile === profileId)) {
+      this.nextState.activeProfile = undefined;
+    }
+  }
+
+  private selectActiveProfile = (eventKey: any) => {
+    this.nextState.activeProfile = (eventKey === '__keep') ? undefined : eventKey;
+  }
+
+  private renderProfiles(): JSX.Element {
+    const { t } = this.props;
+    const { activeProfile, nmmProfiles, profilesEnabled } = this.state;
+
+    if (nmmProfiles.length === 0) {
+      return null;
+    }
+
+    const enabledProfiles = nmmProfiles.filter(profile => profilesEnabled[profile.id]);
+    const active = enabledProfiles.find(profile => profile.id === activeProfile);
+    const keepLabel = t('Keep current profile');
+
+    return (
+      <div className='import-profiles'>
+        <h4>{t('NMM profiles')}</h4>
+        <p>
+          {t('Select the NMM profiles you want to recreate in Vortex. The imported mods '
+            + 'will be enabled in them once they are installed, so the profiles are only '
+            + 'created if you choose to install the imported mods at the end of the import.')}
+        </p>
+        {nmmProfiles.map(profile => (
+          <Toggle
+            key={profile.id}
+            checked={profilesEnabled[profile.id] === true}
+            onToggle={() => this.toggleProfile(profile.id)}
+          >
+            {t('{{name}} ({{count}} mods)',
+               { replace: { name: profile.name, count: profile.modFilenames.length } })}
+          </Toggle>
+        ))}
+        {enabledProfiles.length > 0 ? (
+          <div>
+            {t('Active profile after import:')}
+            {' '}
+            <SplitButton
+              id='import-select-profile'
+              title={(active !== undefined) ? active.name : keepLabel}
+              onSelect={this.selectActiveProfile}
+            >
+              <MenuItem key='__keep' eventKey='__keep'>{keepLabel}</MenuItem>
+              {enabledProfiles.map(profile => (
+                <MenuItem key={profile.id} eventKey={profile.id}>{profile.name}</MenuItem>
+              ))}
+            </SplitButton>
+          </div>
+        ) : null}
+      </div>
+    );
+  }
+
   private renderWorking(): JSX.Element {
     const { t } = this.props;
-    const { progress, modsToImport } = this.state;
-    if (progress === undefined) {
+    const { transferProgress } = this.state;
+    if (transferProgress === undefined) {
       return null;
     }
-    const enabledMods = Object.keys(modsToImport).filter(id => this.isModEnabled(modsToImport[id]));
-    const perc = Math.floor((progress.pos * 100) / enabledMods.length);
+    const { active, completedArchives, startTime, totalArchives,
+            totalBytes, transferredBytes } = transferProgress;
+    const perc = (totalBytes > 0)
+      ? Math.floor((transferredBytes * 100) / totalBytes)
+      : Math.floor((completedArchives * 100) / Math.max(totalArchives, 1));
+
+    const elapsed = (Date.now() - startTime) / 1000;
+    const throughput = (elapsed > 0) ? transferredBytes / elapsed : 0;
+    const remaining = (throughput > 0)
+      ? formatDuration((totalBytes - transferredBytes) / throughput)
+      : '???';
+
     return (
       <div className='import-working-container'>
         <EmptyPlaceholder
@@ -692,8 +1326,33 @@ class ImportDialog extends ComponentEx<IProps, IComponentState> {
           text={t('Importing Mods...')}
           subtext={t('This might take a while, please be patient')}
         />
-        {t('Currently importing: {{mod}}', { replace: { mod: progress.mod } })}
+        {t('Imported {{completed}} of {{total}} archives - {{speed}}/s, about {{remaining}} left', {
+          replace: {
+            completed: completedArchives,
+            total: totalArchives,
+            speed: util.bytesToString(throughput),
+            remaining,
+          },
+        })}
         <ProgressBar now={perc} label={`${perc}%`} />
+        <ListGroup className='import-active-transfers'>
+          {Object.keys(active).map(key => {
+            const transfer = active[key];
+            const transferPerc = (transfer.totalBytes > 0)
+              ? Math.floor((transfer.transferredBytes * 100) / transfer.totalBytes)
+              : 0;
+            return (
+              <ListGroupItem key={key}>
+                {transfer.modName}
+                {' - '}
+                {util.bytesToString(transfer.transferredBytes)}
+                {' / '}
+                {util.bytesToString(transfer.totalBytes)}
+                <ProgressBar now={transferPerc} />
+              </ListGroupItem>
+            );
+          })}
+        </ListGroup>
       </div>
     );
   }
@@ -724,13 +1383,123 @@ class ImportDialog extends ComponentEx<IProps, IComponentState> {
         {t('whether you would like to start the installation for all imported mods,')} <br />
         {t('or whether you want to install these yourself at a later time.')}<br /><br />
         {this.renderEnableModsOnFinishToggle()}
+        {this.renderConflictRules()}
+        {this.renderProfilesNote()}
+        {this.renderLoadOrder()}
+      </div>
+    ) : null;
+  }
+
+  private renderConflictRules(): JSX.Element {
+    const { t } = this.props;
+    const { installModsOnFinish, successfullyImported } = this.state;
+
+    if (installModsOnFinish) {
+      return null;
+    }
+
+    const count = findConflictRules(successfullyImported).length;
+    return count > 0 ? (
+      <span className='import-archives-warning'>
+        {t('The {{count}} file conflict resolutions from NMM can only be carried over when the '
+          + 'imported mods get installed.', { replace: { count } })}
+      </span>
+    ) : null;
+  }
+
+  private renderProfilesNote(): JSX.Element {
+    const { t } = this.props;
+    const { installModsOnFinish, nmmProfiles, profilesEnabled } = this.state;
+
+    const count = nmmProfiles.filter(profile => profilesEnabled[profile.id]).length;
+    return (!installModsOnFinish && (count > 0)) ? (
+      <span className='import-archives-warning'>
+        {t('The {{count}} NMM profiles you selected can only be recreated when the imported '
+          + 'mods get installed.', { replace: { count } })}
+      </span>
+    ) : null;
+  }
+
+  private toggleRestoreLoadOrder = () => {
+    const { restoreLoadOrder } = this.state;
+    this.nextState.restoreLoadOrder = !restoreLoadOrder;
+  }
+
+  private toggleLoadOrderMode = () => {
+    const { loadOrderMode } = this.state;
+    this.nextState.loadOrderMode = (loadOrderMode === 'rules') ? 'order' : 'rules';
+  }
+
+  private renderLoadOrder(): JSX.Element {
+    const { t } = this.props;
+    const { autoSortEnabled, installModsOnFinish, loadOrder, loadOrderMode, restoreLoadOrder,
+            successfullyImported } = this.state;
+
+    const enabledCount = loadOrder.filter(entry => entry.enabled).length;
+    if ((successfullyImported.length === 0) || (enabledCount === 0)) {
+      return null;
+    }
+
+    return (
+      <div>
+        <Toggle
+          checked={restoreLoadOrder && installModsOnFinish}
+          onToggle={this.toggleRestoreLoadOrder}
+          disabled={!installModsOnFinish}
+        >
+          {t('Restore NMM plugin load order ({{count}} plugins)',
+             { replace: { count: enabledCount } })}
+        </Toggle>
+        {!installModsOnFinish ? (
+          <span className='import-archives-warning'>
+            {t('The load order can only be restored when the imported mods get installed.')}
+          </span>
+        ) : null}
+        {restoreLoadOrder && installModsOnFinish ? (
+          <Toggle
+            checked={loadOrderMode === 'rules'}
+            onToggle={this.toggleLoadOrderMode}
+          >
+            {t('Apply as user rules (keeps LOOT sorting working)')}
+          </Toggle>
+        ) : null}
+        {restoreLoadOrder && installModsOnFinish && (loadOrderMode === 'order')
+          && autoSortEnabled ? (
+          <span className='import-archives-warning'>
+            {t('Automatic plugin sorting is enabled and will rearrange the restored load order, '
+              + 'either disable it or apply the load order as user rules.')}
+          </span>
+        ) : null}
+      </div>
+    );
+  }
+
+  private renderUnmappedChoices(): JSX.Element {
+    const { t } = this.props;
+    const { importResult, successfullyImported } = this.state;
+    if (importResult === undefined) {
+      return null;
+    }
+
+    const unmapped = successfullyImported
+      .filter(mod => importResult.unmappedChoices.indexOf(mod.modFilename) !== -1);
+
+    return unmapped.length > 0 ? (
+      <div>
+        <span className='import-archives-warning'>
+          {t('Vortex could not restore the FOMOD options you picked in NMM for the '
+            + 'following mods, you will be asked to select them again during installation:')}
+        </span>
+        <ListGroup className='import-unmapped-choices'>
+          {unmapped.map(mod => <ListGroupItem key={mod.modFilename}>{mod.modName}</ListGroupItem>)}
+        </ListGroup>
       </div>
     ) : null;
   }
 
   private renderReview(): JSX.Element {
     const { t } = this.props;
-    const { failedImports } = this.state;
+    const { failedImports, importResult } = this.state;
 
     return (
       <div className='import-working-container'>
@@ -748,26 +1517,123 @@ class ImportDialog extends ComponentEx<IProps, IComponentState> {
         }
         <span className='import-review-text'>
           {t('You can review the log at: ')}
-          <a onClick={this.openLog}>{this.mTrace.logFilePath}</a>
+          <a onClick={this.openLog}>{importResult?.logFilePath}</a>
         </span><br /><br />
         <span>
           {this.renderReviewSummary()}
           <br /><br />
         </span>
+        {this.renderUnmappedChoices()}
+        {this.renderResults()}
+        <LogViewer t={t} entries={this.state.traceEntries} />
+        <Button onClick={this.saveSupportBundle}>{t('Save support bundle...')}</Button>
+      </div>
+    );
+  }
+
+  private renderResults(): JSX.Element {
+    const { t } = this.props;
+    const { counter, failedImports, importResult, retrying } = this.state;
+
+    if ((importResult === undefined) || (Object.keys(importResult.results).length === 0)) {
+      return null;
+    }
+
+    return (
+      <div className='import-results'>
+        <Table
+          tableId='nmm-import-results'
+          data={importResult.results}
+          dataId={counter}
+          actions={[]}
+          staticElements={[
+            RESULT_NAME, RESULT_STATUS, RESULT_ERROR, RESULT_SIZE, RESULT_ARCHIVE_ID]}
+        />
+        {(failedImports.length > 0) ? (
+          <Button disabled={retrying} onClick={this.retry}>
+            {retrying ? <Spinner /> : null}
+            {t('Retry failed')}
+          </Button>
+        ) : null}
       </div>
     );
   }
 
+  private retry = () => {
+    const { concurrency, importResult, transferStrategy } = this.state;
+    this.nextState.retrying = true;
+    retryFailed(this.context.api, importResult, {
+      strategy: transferStrategy,
+      concurrency,
+      onProgress: (progress: ITransferProgress) => {
+        this.nextState.transferProgress = progress;
+      },
+    })
+      .then(result => {
+        this.nextState.importResult = result;
+        this.nextState.failedImports = result.failed;
+        this.nextState.successfullyImported = this.getSuccessfullyImported();
+        ++this.nextState.counter;
+        this.loadTrace();
+      })
+      .catch(err => {
+        this.context.api.showErrorNotification('Failed to retry NMM import', err,
+          { allowReport: false });
+      })
+      .finally(() => {
+        this.nextState.retrying = false;
+      });
+  }
+
+  private loadTrace() {
+    const { importResult } = this.state;
+    if (importResult === undefined) {
+      return;
+    }
+    TraceImport.readTrace(importResult.sessionPath)
+      .then(entries => {
+        this.nextState.traceEntries = entries;
+      })
+      .catch(err => {
+        log('warn', 'Failed to read NMM import trace', err.message);
+      });
+  }
+
+  private saveSupportBundle = () => {
+    const { t, gameId } = this.props;
+    const { importResult } = this.state;
+    const api = this.context.api;
+    api.saveFile({
+      title: t('Save support bundle'),
+      defaultPath: `nmm-import-support-${gameId}.zip`,
+      filters: [{ name: 'Zip', extensions: ['zip'] }],
+    })
+      .then(filePath => (filePath === undefined)
+        ? Promise.resolve()
+        : createSupportBundle(importResult.sessionPath, filePath)
+          .then(() => {
+            api.sendNotification({
+              type: 'success',
+              message: 'Support bundle saved',
+              displayMS: 3000,
+            });
+          }))
+      .catch(err => {
+        api.showErrorNotification('Failed to create support bundle', err, { allowReport: false });
+      });
+  }
+
   private openLog = (evt) => {
     evt.preventDefault();
-    (util as any).opn(this.mTrace.logFilePath).catch(err => undefined);
+    (util as any).opn(this.state.importResult.logFilePath).catch(err => undefined);
   }
 
   private nextLabel(step: Step): string {
     const { t } = this.props;
     switch (step) {
       case 'start': return t('Next');
-      case 'setup': return t('Start Import');
+      case 'setup': return t('Next');
+      case 'categories': return t('Start Import');
       case 'working': return null;
       case 'review': return t('Finish');
     }
@@ -790,40 +1656,36 @@ class ImportDialog extends ComponentEx<IProps, IComponentState> {
   }
 
   private finish() {
-    const { installModsOnFinish } = this.state;
-
-    // We're only interested in the mods we actually managed to import.
-    const imported = this.getSuccessfullyImported();
+    const { t } = this.props;
+    const { activeProfile, importResult, installModsOnFinish, loadOrder, loadOrderMode,
+            nmmProfiles, profilesEnabled, restoreLoadOrder } = this.state;
 
-    // If we did not succeed in importing anything, there's no point in
-    //  enabling anything.
-    if (imported.length === 0) {
+    if (importResult === undefined) {
       this.next();
       return;
     }
 
-    // Check whether the user wants Vortex to automatically install all imported
-    //  mod archives.
-    if (installModsOnFinish) {
-      this.installMods(imported);
-    }
-
-    this.next();
-  }
-
-  private installMods(modEntries: IModEntry[]) {
-    const state = this.context.api.store.getState();
-    const downloads = util.getSafe(state, ['persistent', 'downloads', 'files'], undefined);
-    if (downloads === undefined) {
-      // We clearly didn't manage to import anything.
-      return Promise.reject(new Error('persistent.downloads.files is empty!'));
-    }
-
-    const archiveIds = Object.keys(downloads).filter(key =>
-      modEntries.find(mod => mod.modFilename === downloads[key].localPath) !== undefined);
-    return Promise.each(archiveIds, archiveId => {
-      this.context.api.events.emit('start-install-download', archiveId, true);
-    });
+    // We're only interested in the mods we actually managed to import.
+    const result = { ...importResult, imported: this.getSuccessfullyImported() };
+    this.nextState.finishing = true;
+    finishImport(this.context.api, result, {
+      install: installModsOnFinish,
+      loadOrder: (restoreLoadOrder && installModsOnFinish) ? loadOrder : undefined,
+      loadOrderMode,
+      profiles: installModsOnFinish
+        ? nmmProfiles.filter(profile => profilesEnabled[profile.id])
+        : [],
+      activeProfile,
+    })
+      .then(() => this.next())
+      .catch(err => {
+        log('warn', 'Failed to finish NMM import', err.message);
+        this.nextState.error = t('Failed to finish the import: {{error}}',
+                                 { replace: { error: err.message } });
+      })
+      .finally(() => {
+        this.nextState.finishing = false;
+      });
   }
 
   private start() {
@@ -849,10 +1711,55 @@ class ImportDialog extends ComponentEx<IProps, IComponentState> {
       this.cancel();
     }
 
-    return findInstances(this.props.gameId)
+    return this.findSources()
+      .then(() => ImportJournal.findUnfinished(this.props.gameId))
+      .then(unfinished => {
+        this.nextState.unfinishedImport = unfinished;
+      })
+      .catch(err => {
+        this.nextState.error = err.message;
+      });
+  }
+
+  private findSources(): Promise<void> {
+    return findNMMInstances(this.context.api, this.props.gameId)
       .then(found => {
         this.nextState.sources = found;
         this.nextState.selectedSource = found[0];
+      });
+  }
+
+  private browseFolder = () => {
+    const { t, gameId, onSelectFolder, onSetManualFolder } = this.props;
+    onSelectFolder(true);
+    this.nextState.browseError = undefined;
+    this.context.api.selectDir({ title: t('Select your NMM mods folder') })
+      .then(folderPath => (folderPath === undefined)
+        ? Promise.resolve()
+        : sourceFromFolder(folderPath)
+          .then(source => {
+            onSetManualFolder(gameId, source[2]);
+            const sources = addSource(this.state.sources || [], source);
+            this.nextState.sources = sources;
+            this.nextState.selectedSource = sources.find(iter =>
+              iter[0].toUpperCase() === source[0].toUpperCase());
+          }))
+      .catch(err => {
+        this.nextState.browseError = err.message;
+      })
+      .finally(() => onSelectFolder(false));
+  }
+
+  private addWinePrefix = () => {
+    const { t, onAddWinePrefix } = this.props;
+    this.context.api.selectDir({ title: t('Select a Wine/Proton prefix') })
+      .then(prefixPath => {
+        if (prefixPath === undefined) {
+          return Promise.resolve();
+        }
+        onAddWinePrefix(prefixPath);
+        this.nextState.sources = undefined;
+        return this.findSources();
       })
       .catch(err => {
         this.nextState.error = err.message;
@@ -861,41 +1768,70 @@ class ImportDialog extends ComponentEx<IProps, IComponentState> {
 
   private setup() {
     const { gameId } = this.props;
-    const state: types.IState = this.context.api.store.getState();
-    const mods = state.persistent.mods[gameId] || {};
     const virtualPath = getVirtualConfigFilePath(this.state.selectedSource[0]);
-    return testAccess(this.props.t, this.state.selectedSource[2])
-      .then(() => parseNMMConfigFile(virtualPath, mods))
-      .catch(err => (err instanceof ParseError)
-        ? Promise.resolve([])
-        : Promise.reject(err))
-      .then((modEntries: IModEntry[]) => {
-        this.nextState.parsedMods = modEntries.reduce((prev, value) => {
-          // modfilename appears to be the only field that we can rely on being set and it being
-          // unique
-          prev[value.modFilename] = value;
+    readNMMLoadOrder(gameId)
+      .then(loadOrder => {
+        this.nextState.loadOrder = loadOrder;
+      })
+      .catch(err => {
+        log('warn', 'Failed to read NMM plugin load order', err.message);
+      });
+    isSameVolume(this.state.selectedSource[2], this.props.downloadPath)
+      .then(sameVolume => {
+        this.nextState.sameVolume = sameVolume;
+        this.recalculate();
+      });
+    findProfiles(this.state.selectedSource[2])
+      .then(profiles => {
+        this.nextState.nmmProfiles = profiles;
+        this.nextState.profilesEnabled = profiles.reduce((prev, profile) => {
+          prev[profile.id] = true;
           return prev;
         }, {});
       })
       .catch(err => {
-        this.nextState.error = err.message;
-      }).finally(() => this.onStartUp());
+        log('warn', 'Failed to read NMM profiles', err.message);
+      });
+    findUnmanagedFiles(this.context.api, gameId, virtualPath, this.state.selectedSource[2])
+      .then(files => {
+        this.nextState.unmanagedFiles = files.reduce((prev, file) => {
+          prev[file.relPath] = file;
+          return prev;
+        }, {});
+      })
+      .catch(err => {
+        log('warn', 'Failed to look for unmanaged files', err.message);
+      });
+    return this.onStartUp();
   }
 
-  private populateModsTable(cb: ProgressCB): Promise<ModsMap> {
-    const { t } = this.props;
-    const { selectedSource, parsedMods } = this.state;
-    const api = this.context.api;
-    return (generateModEntries(api, selectedSource, parsedMods, cb) as any)
+  private prepareCategories() {
+    const { categoryMappings, vortexCategories } = this.props;
+    const { modsToImport, selectedSource } = this.state;
+    const modsPath = selectedSource[2];
+    const selected = Object.keys(modsToImport || {})
+      .map(id => modsToImport[id])
+      .filter(mod => this.isModEnabled(mod));
+
+    this.nextState.categoryRows = undefined;
+    return getCategories(getCategoriesFilePath(modsPath))
       .catch(err => {
-        log('error', 'Failed to create mod entry', err);
-        const errorMessage = (err.code === 'EPERM')
-          ? t('"{{permFile}}" is access protected. Please ensure your account has '
-            + 'full read/write permissions to your game\'s NMM mods folder and try again.',
-            { replace: { permFile: err.path } })
-          : err.message;
-        this.nextState.error = errorMessage;
-        return Promise.resolve({});
+        log('warn', 'Failed to read NMM categories', err.message);
+        return {};
+      })
+      .then(nmmCategories => countCategoryUsage(modsPath, selected, nmmCategories,
+                                                vortexCategories)
+        .then(usage => buildCategoryRows(nmmCategories, usage, vortexCategories,
+                                         categoryMappings)))
+      .then(rows => {
+        this.nextState.categoryRows = rows.reduce((prev, row) => {
+          prev[row.name] = row;
+          return prev;
+        }, {});
+      })
+      .catch(err => {
+        log('error', 'Failed to prepare category mapping', err.message);
+        this.nextState.categoryRows = {};
       });
   }
 
@@ -909,9 +1845,26 @@ class ImportDialog extends ComponentEx<IProps, IComponentState> {
       !((this.state.importEnabled[mod.modFilename] === undefined) && mod.isAlreadyManaged));
   }
 
+  private categoryMapping(): CategoryMappingMap {
+    const { categoryRows } = this.state;
+    if (categoryRows === undefined) {
+      // the categories step hasn't been reached yet, the mapping from last time applies
+      return this.props.categoryMappings;
+    }
+    return Object.keys(categoryRows)
+      .reduce((prev, name) => {
+        prev[name] = categoryRows[name].mapping;
+        return prev;
+      }, {});
+  }
+
   private startImport() {
-    const { gameId } = this.props;
-    const { autoSortEnabled, modsToImport, selectedSource } = this.state;
+    const { gameId, onSetCategoryMappings } = this.props;
+    const { autoSortEnabled, concurrency, loadOrder, modsToImport,
+            selectedSource, transferStrategy, unmanagedFiles } = this.state;
+
+    const categoryMapping = this.categoryMapping();
+    onSetCategoryMappings(gameId, categoryMapping);
 
     if (autoSortEnabled) {
       // We don't want the sorting functionality to kick off as the user
@@ -927,46 +1880,26 @@ class ImportDialog extends ComponentEx<IProps, IComponentState> {
         this.context.api.events.emit('autosort-plugins', true);
       }
 
-      try {
-        this.mTrace = new TraceImport();
-      } catch (err) {
-        if (err.code === 'EEXIST') {
-          return Promise.delay(1000).then(() => startImportProcess());
-        } else {
-          this.context.api.showErrorNotification(
-            'Failed to initialize trace log for NMM import', err);
-          return Promise.resolve();
-        }
-      }
       const modList = Object.keys(modsToImport).map(id => modsToImport[id]);
-      const enabledMods = modList.filter(mod => this.isModEnabled(mod));
-      const modsPath = selectedSource[2];
-      this.mTrace.initDirectory(selectedSource[0]);
-      // The categories.xml file seems to be created by NMM inside its defined "modFolder"
-      //  and not inside the virtual folder.
-      return getCategories(getCategoriesFilePath(modsPath))
-        .catch(err => {
-          // Do not stop the import process just because we can't import categories.
-          this.mTrace.log('error', 'Failed to import categories from NMM', err);
-          return Promise.resolve({});
-        })
-        .then(categories => {
-          this.mTrace.log('info', 'NMM Mods (count): ' + modList.length +
-            ' - Importing (count):' + enabledMods.length);
-          this.context.api.events.emit('enable-download-watch', false);
-
-          return importArchives(this.context.api, gameId, this.mTrace, modsPath, enabledMods,
-            categories, (mod: string, pos: number) => {
-              this.nextState.progress = { mod, pos };
-            })
-            .then(errors => {
-              this.context.api.events.emit('enable-download-watch', true);
-              this.nextState.failedImports = errors;
-              this.props.onSetStep('review');
-            });
+      return runImport(this.context.api, gameId, {
+        source: selectedSource,
+        mods: modList.filter(mod => this.isModEnabled(mod)),
+        strategy: transferStrategy,
+        concurrency,
+        categoryMapping,
+        unmanagedFiles: Object.keys(unmanagedFiles || {}).map(key => unmanagedFiles[key]),
+        loadOrder,
+        resumeSession: this.mResumeSession,
+        onProgress: (progress: ITransferProgress) => {
+          this.nextState.transferProgress = progress;
+        },
+      })
+        .then(result => {
+          this.nextState.importResult = result;
+          this.nextState.failedImports = result.failed;
+          this.props.onSetStep('review');
         })
         .catch(err => {
-          this.context.api.events.emit('enable-download-watch', true);
           this.nextState.error = err.message;
         });
     };
@@ -981,6 +1914,8 @@ class ImportDialog extends ComponentEx<IProps, IComponentState> {
   }
 }
 
+const emptyObject = {};
+
 function mapStateToProps(state: any): IConnectedProps {
   const gameId = selectors.activeGameId(state);
 
@@ -989,12 +1924,22 @@ function mapStateToProps(state: any): IConnectedProps {
     importStep: state.session.modimport.importStep || undefined,
     downloadPath: selectors.downloadPath(state),
     installPath: gameId !== undefined ? selectors.installPathForGame(state, gameId) : undefined,
+    selectingFolder: state.session.modimport.selectFolder,
+    vortexCategories: util.getSafe(state, ['persistent', 'categories', gameId], emptyObject),
+    categoryMappings: util.getSafe(state,
+      ['settings', 'modimport', 'categoryMappings', gameId], emptyObject),
   };
 }
 
 function mapDispatchToProps(dispatch: ThunkDispatch<any, null, Redux.Action>): IActionProps {
   return {
     onSetStep: (step?: Step) => dispatch(setImportStep(step)),
+    onAddWinePrefix: (prefixPath: string) => dispatch(addWinePrefix(prefixPath)),
+    onSetManualFolder: (gameId: string, folderPath: string) =>
+      dispatch(setManualFolder(gameId, folderPath)),
+    onSelectFolder: (active: boolean) => dispatch(selectImportFolder(active)),
+    onSetCategoryMappings: (gameId: string, mappings: CategoryMappingMap) =>
+      dispatch(setCategoryMappings(gameId, mappings)),
   };
 }
 
@@ -0,0 +1,124 @@
+import { ITraceEntry, TraceLevel } from '../types/trace';
+
+import * as I18next from 'i18next';
+import * as React from 'react';
+import { DropdownButton, MenuItem } from 'react-bootstrap';
+import { ComponentEx, EmptyPlaceholder } from 'vortex-api';
+
+// Minimum level shown by each filter option
+const LEVELS: { [level: string]: TraceLevel[] } = {
+  info: ['info', 'warn', 'error'],
+  warn: ['warn', 'error'],
+  error: ['error'],
+};
+
+interface ILogViewerProps {
+  t: I18next.TFunction;
+  entries: ITraceEntry[];
+}
+
+interface ILogViewerState {
+  level: TraceLevel;
+  // file name of the archive to show entries for, undefined shows all
+  mod: string;
+}
+
+/**
+ * lists the entries of an import trace, filtered by level and mod
+ */
+class LogViewer extends ComponentEx<ILogViewerProps, ILogViewerState> {
+  constructor(props: ILogViewerProps) {
+    super(props);
+
+    this.initState({
+      level: 'warn',
+      mod: undefined,
+    });
+  }
+
+  public render(): JSX.Element {
+    const { t, entries } = this.props;
+    const { level, mod } = this.state;
+
+    const levelLabels: { [level: string]: string } = {
+      info: t('Everything'),
+      warn: t('Warnings and errors'),
+      error: t('Errors'),
+    };
+
+    const mods = Array.from(new Set<string>(entries
+      .filter(entry => entry.mod !== undefined)
+      .map(entry => entry.mod)))
+      .sort();
+
+    const visible = entries.filter(entry => (LEVELS[level].indexOf(entry.level) !== -1)
+      && ((mod === undefined) || (entry.mod === mod)));
+
+    return (
+      <div className='import-log-viewer'>
+        <div className='import-log-filters'>
+          {t('Show:')}
+          {' '}
+          <DropdownButton
+            id='import-log-level'
+            title={levelLabels[level]}
+            onSelect={this.selectLevel}
+          >
+            {Object.keys(LEVELS).map(key => (
+              <MenuItem key={key} eventKey={key}>{levelLabels[key]}</MenuItem>
+            ))}
+          </DropdownButton>
+          {' '}
+          {t('Mod:')}
+          {' '}
+          <DropdownButton
+            id='import-log-mod'
+            title={mod || t('All mods')}
+            onSelect={this.selectMod}
+          >
+            <MenuItem key='__all' eventKey='__all'>{t('All mods')}</MenuItem>
+            {mods.map(modName => (
+              <MenuItem key={modName} eventKey={modName}>{modName}</MenuItem>
+            ))}
+          </DropdownButton>
+        </div>
+        {(visible.length === 0)
+          ? <EmptyPlaceholder icon='layout-list' text={t('Nothing to show')} />
+          : (
+            <table className='import-log'>
+              <tbody>
+                {visible.map(this.renderEntry)}
+              </tbody>
+            </table>
+          )}
+      </div>
+    );
+  }
+
+  private renderEntry = (entry: ITraceEntry, idx: number): JSX.Element => {
+    return (
+      <tr key={idx} className={`import-log-${entry.level}`}>
+        <td>{new Date(entry.time).toLocaleTimeString()}</td>
+        <td>{entry.phase}</td>
+        <td>{entry.mod}</td>
+        <td>
+          {entry.message}
+          {(entry.extra !== undefined)
+            ? <div className='import-log-extra'>{entry.extra}</div>
+            : null}
+        </td>
+        <td>{entry.code}</td>
+      </tr>
+    );
+  }
+
+  private selectLevel = (eventKey: any) => {
+    this.nextState.level = eventKey;
+  }
+
+  private selectMod = (eventKey: any) => {
+    this.nextState.mod = (eventKey === '__all') ? undefined : eventKey;
+  }
+}
+
+export default LogViewer;